@@ -1,9 +1,47 @@
-import { ButtonStyle } from "discord.js"
-import type { MenuPluginOptions } from "./types"
+import { ButtonStyle, ComponentType } from "discord.js"
+import type {
+  BaseMenuDefinition,
+  MenuEventName,
+  MenuPluginOptions
+} from "./types"
 
 // Maximum options allowed in a select menu
 export const MAX_SELECT_OPTIONS = 25
 
+// Maximum buttons allowed in an action row
+export const MAX_ROW_BUTTONS = 5
+
+// Maximum tabs in a tabbed menu (five rows of tab buttons)
+export const MAX_TABS = 25
+
+// Maximum inputs allowed in a modal
+export const MAX_MODAL_FIELDS = 5
+
+// Custom ID of the text input in the search modal
+export const SEARCH_QUERY_INPUT_ID = "query"
+
+// Custom ID of the text input in the jump to page modal
+export const JUMP_PAGE_INPUT_ID = "page"
+
+// Maximum length of a search query
+export const MAX_SEARCH_QUERY_LENGTH = 100
+
+// Maximum length of a component or modal custom ID
+export const MAX_CUSTOM_ID_LENGTH = 100
+
+// Random bytes in a session's short ID (11 characters once encoded)
+export const SHORT_ID_BYTES = 8
+
+// Component types that users can interact with
+export const INTERACTIVE_COMPONENT_TYPES = new Set<number>([
+  ComponentType.Button,
+  ComponentType.StringSelect,
+  ComponentType.UserSelect,
+  ComponentType.RoleSelect,
+  ComponentType.MentionableSelect,
+  ComponentType.ChannelSelect
+])
+
 // Reserved action names that users cannot override
 export const RESERVED_ACTIONS = new Set([
   "first",
@@ -14,11 +52,48 @@ export const RESERVED_ACTIONS = new Set([
   "indicator"
 ])
 
+// Navigation actions a custom pagination navigation can trigger by custom ID
+// Not reserved, built-in controls are told apart by INTERNAL_ACTION_PREFIX
+export const NAVIGATION_ACTIONS = new Set([
+  ...RESERVED_ACTIONS,
+  "jump",
+  "gotoRange",
+  "search",
+  "clearSearch",
+  "sort",
+  "selectItem",
+  "deselectItem",
+  "selectAll",
+  "clearSelection",
+  "selectionCount"
+])
+
 // Internal prefix for built-in navigation actions
 export const INTERNAL_ACTION_PREFIX = "__nav__"
 
+// Definition hook called for each lifecycle event
+export const MENU_EVENT_HOOKS = {
+  userJoin: "onUserJoin",
+  userLeave: "onUserLeave",
+  pageChange: "onPageChange",
+  action: "onAction",
+  sessionExpire: "onSessionExpire",
+  messageDelete: "onMessageDelete"
+} as const satisfies Record<MenuEventName, keyof BaseMenuDefinition<any>>
+
 export const PLUGIN_DEFAULTS: MenuPluginOptions = {
   actionPrefix: "menu",
+  locales: {},
+  builtInLocales: true,
+  messages: {
+    actionDenied: "You are not allowed to do that.",
+    cooldown: "Slow down! Try again in %seconds%s.",
+    rateLimited: "You are interacting too fast, try again in %seconds%s.",
+    menuUnavailable: "That menu is not available right now.",
+    sessionExpired: "This menu has expired, open it again to continue.",
+    confirmationStale:
+      "The menu changed since you were asked, nothing was done."
+  },
   navigation: {
     first: {
       emoji: "⏪",
@@ -36,10 +111,88 @@ export const PLUGIN_DEFAULTS: MenuPluginOptions = {
       emoji: "⏩",
       style: ButtonStyle.Primary
     },
+    indicator: {
+      label: "Page %page% / %pageMax%",
+      style: ButtonStyle.Secondary
+    },
     goto: {
       /** Placeholder for string select, replaces for actual values */
       placeholder: "🔄 Jump to page (%page% / %pageMax%)",
       optionLabel: "Page %page%"
     },
+    jump: {
+      emoji: "🔢",
+      style: ButtonStyle.Secondary,
+      modalTitle: "Jump to page",
+      inputLabel: "Page number",
+      inputPlaceholder: "1 - %pageMax%"
+    },
+    gotoRange: {
+      placeholder: "📚 Pages %start% - %end%",
+      optionLabel: "Pages %start% - %end%"
+    },
+    search: {
+      emoji: "🔍",
+      style: ButtonStyle.Secondary,
+      modalTitle: "Search",
+      inputLabel: "Search for",
+      inputPlaceholder: "Leave empty to clear the search"
+    },
+    clearSearch: {
+      emoji: "✖️",
+      style: ButtonStyle.Secondary
+    },
+    sort: {
+      placeholder: "↕️ Sort by",
+      optionLabel: "%sort%"
+    },
+    selectItem: {
+      label: "Select",
+      style: ButtonStyle.Secondary
+    },
+    deselectItem: {
+      emoji: "✅",
+      label: "Selected",
+      style: ButtonStyle.Success
+    },
+    selectAll: {
+      label: "Select all",
+      style: ButtonStyle.Secondary
+    },
+    clearSelection: {
+      label: "Clear selection",
+      style: ButtonStyle.Secondary
+    },
+    selectionCount: {
+      label: "%count% selected",
+      style: ButtonStyle.Secondary
+    },
+    tab: {
+      style: ButtonStyle.Secondary,
+      activeStyle: ButtonStyle.Primary
+    },
+    back: {
+      emoji: "↩️",
+      label: "Back",
+      style: ButtonStyle.Secondary
+    },
+    input: {
+      emoji: "✏️",
+      label: "Answer",
+      style: ButtonStyle.Secondary
+    },
+    finish: {
+      emoji: "✅",
+      label: "Finish",
+      style: ButtonStyle.Success
+    },
+    confirm: {
+      label: "Confirm",
+      style: ButtonStyle.Danger
+    },
+    cancel: {
+      label: "Cancel",
+      style: ButtonStyle.Secondary
+    }
   }
 } as const
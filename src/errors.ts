@@ -0,0 +1,50 @@
+import { MAX_CUSTOM_ID_LENGTH } from "./constants"
+import type { SessionLimitScope } from "./types"
+
+/**
+ * Thrown when a rendered custom ID is longer than Discord allows
+ */
+export class CustomIdLengthError extends Error {
+  /** Menu the component belongs to */
+  public readonly menuName: string
+
+  /** Action the custom ID triggers */
+  public readonly action: string
+
+  /** The rejected custom ID */
+  public readonly customId: string
+
+  constructor(menuName: string, action: string, customId: string) {
+    super(
+      `Custom ID for action "${action}" of menu "${menuName}" is ${customId.length} characters, ` +
+        `Discord allows at most ${MAX_CUSTOM_ID_LENGTH}: ${customId}`
+    )
+    this.name = "CustomIdLengthError"
+    this.menuName = menuName
+    this.action = action
+    this.customId = customId
+  }
+}
+
+/**
+ * Thrown when creating a session would exceed a configured session limit
+ */
+export class SessionLimitError extends Error {
+  /** Which limit was reached */
+  public readonly scope: SessionLimitScope
+
+  /** The configured limit */
+  public readonly limit: number
+
+  /** Menu the limit applies to, undefined for plugin-wide limits */
+  public readonly menuName?: string
+
+  constructor(scope: SessionLimitScope, limit: number, menuName?: string) {
+    const target = menuName ? `menu "${menuName}"` : "all menus"
+    super(`Session limit reached: ${limit} per ${scope} for ${target}`)
+    this.name = "SessionLimitError"
+    this.scope = scope
+    this.limit = limit
+    this.menuName = menuName
+  }
+}
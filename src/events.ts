@@ -0,0 +1,89 @@
+import { Logger } from "commandkit"
+import type { MenuEventListener, MenuEventName, MenuEvents } from "./types"
+
+/**
+ * Typed emitter for menu lifecycle events across every session
+ */
+export class MenuEventEmitter {
+  private listeners = new Map<MenuEventName, Set<MenuEventListener<any>>>()
+
+  /**
+   * Listen to an event
+   */
+  public on<K extends MenuEventName>(
+    event: K,
+    listener: MenuEventListener<K>
+  ): this {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set())
+    }
+    this.listeners.get(event)!.add(listener)
+
+    return this
+  }
+
+  /**
+   * Listen to the next emit of an event only
+   */
+  public once<K extends MenuEventName>(
+    event: K,
+    listener: MenuEventListener<K>
+  ): this {
+    const wrapped: MenuEventListener<K> = payload => {
+      this.off(event, wrapped)
+      return listener(payload)
+    }
+
+    return this.on(event, wrapped)
+  }
+
+  /**
+   * Stop listening to an event
+   */
+  public off<K extends MenuEventName>(
+    event: K,
+    listener: MenuEventListener<K>
+  ): this {
+    this.listeners.get(event)?.delete(listener)
+    return this
+  }
+
+  /**
+   * Emit an event and wait for every listener
+   * Listener errors are logged, never thrown
+   */
+  public async emit<K extends MenuEventName>(
+    event: K,
+    payload: MenuEvents[K]
+  ): Promise<void> {
+    const listeners = this.listeners.get(event)
+    if (!listeners) {
+      return
+    }
+
+    await Promise.all(
+      Array.from(listeners).map(listener =>
+        Promise.resolve()
+          .then(() => listener(payload))
+          .catch(err =>
+            Logger.error(`Error in listener for menu event ${event}: ${err}`)
+          )
+      )
+    )
+  }
+
+  /**
+   * Remove all listeners, or all listeners of one event
+   */
+  public removeAllListeners(event?: MenuEventName): this {
+    if (event) {
+      this.listeners.delete(event)
+    } else {
+      this.listeners.clear()
+    }
+
+    return this
+  }
+}
+
+export const menuEvents = new MenuEventEmitter()
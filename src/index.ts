@@ -3,11 +3,24 @@ import { PLUGIN_DEFAULTS } from "./constants"
 import { MenuPlugin } from "./plugin"
 import type { MenuPluginUserOptions } from "./types"
 
+export * from "./errors"
+export * from "./events"
+export * from "./localization"
 export * from "./manager"
 export * from "./menu-queue"
+export * from "./menus/cursor-pagination"
 export * from "./menus/pagination"
+export * from "./menus/single"
+export * from "./menus/tabs"
+export * from "./menus/wizard"
+export * from "./page-cache"
 export * from "./plugin"
 export * from "./queue/memory-driver"
+export * from "./queue/redis-driver"
+export * from "./session-store"
+export * from "./store/file-store"
+export * from "./store/memory-store"
+export * from "./store/redis-store"
 export * from "./types"
 
 export function menu(options?: MenuPluginUserOptions) {
@@ -0,0 +1,179 @@
+import type { MenuLocaleCatalog } from "./types"
+
+/**
+ * Built-in translations of the default navigation labels and messages
+ * Keyed by Discord locale, placeholders are kept as in the defaults
+ */
+export const BUILT_IN_LOCALES: Record<string, MenuLocaleCatalog> = {
+  de: {
+    messages: {
+      actionDenied: "Das darfst du nicht.",
+      cooldown: "Nicht so schnell! Versuche es in %seconds% s erneut.",
+      rateLimited:
+        "Du interagierst zu schnell, versuche es in %seconds% s erneut.",
+      menuUnavailable: "Dieses Menü ist gerade nicht verfügbar.",
+      sessionExpired:
+        "Dieses Menü ist abgelaufen, öffne es erneut, um fortzufahren.",
+      confirmationStale:
+        "Das Menü hat sich geändert, seit du gefragt wurdest. Es wurde nichts getan."
+    },
+    navigation: {
+      indicator: { label: "Seite %page% / %pageMax%" },
+      goto: {
+        placeholder: "🔄 Zu Seite springen (%page% / %pageMax%)",
+        optionLabel: "Seite %page%"
+      },
+      jump: {
+        modalTitle: "Zu Seite springen",
+        inputLabel: "Seitenzahl"
+      },
+      gotoRange: {
+        placeholder: "📚 Seiten %start% - %end%",
+        optionLabel: "Seiten %start% - %end%"
+      },
+      search: {
+        modalTitle: "Suche",
+        inputLabel: "Suchen nach",
+        inputPlaceholder: "Leer lassen, um die Suche zu löschen"
+      },
+      sort: { placeholder: "↕️ Sortieren nach" },
+      selectItem: { label: "Auswählen" },
+      deselectItem: { label: "Ausgewählt" },
+      selectAll: { label: "Alle auswählen" },
+      clearSelection: { label: "Auswahl aufheben" },
+      selectionCount: { label: "%count% ausgewählt" },
+      back: { label: "Zurück" },
+      input: { label: "Antworten" },
+      finish: { label: "Fertig" },
+      confirm: { label: "Bestätigen" },
+      cancel: { label: "Abbrechen" }
+    }
+  },
+  fr: {
+    messages: {
+      actionDenied: "Vous n'êtes pas autorisé à faire cela.",
+      cooldown: "Doucement ! Réessayez dans %seconds% s.",
+      rateLimited: "Vous interagissez trop vite, réessayez dans %seconds% s.",
+      menuUnavailable: "Ce menu n'est pas disponible pour le moment.",
+      sessionExpired: "Ce menu a expiré, ouvrez-le à nouveau pour continuer.",
+      confirmationStale:
+        "Le menu a changé depuis la demande, rien n'a été fait."
+    },
+    navigation: {
+      indicator: { label: "Page %page% / %pageMax%" },
+      goto: {
+        placeholder: "🔄 Aller à la page (%page% / %pageMax%)",
+        optionLabel: "Page %page%"
+      },
+      jump: {
+        modalTitle: "Aller à la page",
+        inputLabel: "Numéro de page"
+      },
+      gotoRange: {
+        placeholder: "📚 Pages %start% - %end%",
+        optionLabel: "Pages %start% - %end%"
+      },
+      search: {
+        modalTitle: "Recherche",
+        inputLabel: "Rechercher",
+        inputPlaceholder: "Laisser vide pour effacer la recherche"
+      },
+      sort: { placeholder: "↕️ Trier par" },
+      selectItem: { label: "Sélectionner" },
+      deselectItem: { label: "Sélectionné" },
+      selectAll: { label: "Tout sélectionner" },
+      clearSelection: { label: "Effacer la sélection" },
+      selectionCount: { label: "%count% sélectionné(s)" },
+      back: { label: "Retour" },
+      input: { label: "Répondre" },
+      finish: { label: "Terminer" },
+      confirm: { label: "Confirmer" },
+      cancel: { label: "Annuler" }
+    }
+  },
+  "es-ES": {
+    messages: {
+      actionDenied: "No tienes permiso para hacer eso.",
+      cooldown: "¡Más despacio! Inténtalo de nuevo en %seconds% s.",
+      rateLimited:
+        "Estás interactuando demasiado rápido, inténtalo de nuevo en %seconds% s.",
+      menuUnavailable: "Ese menú no está disponible ahora mismo.",
+      sessionExpired: "Este menú ha caducado, vuelve a abrirlo para continuar.",
+      confirmationStale:
+        "El menú cambió desde que se te preguntó, no se hizo nada."
+    },
+    navigation: {
+      indicator: { label: "Página %page% / %pageMax%" },
+      goto: {
+        placeholder: "🔄 Ir a la página (%page% / %pageMax%)",
+        optionLabel: "Página %page%"
+      },
+      jump: {
+        modalTitle: "Ir a la página",
+        inputLabel: "Número de página"
+      },
+      gotoRange: {
+        placeholder: "📚 Páginas %start% - %end%",
+        optionLabel: "Páginas %start% - %end%"
+      },
+      search: {
+        modalTitle: "Buscar",
+        inputLabel: "Buscar",
+        inputPlaceholder: "Déjalo vacío para borrar la búsqueda"
+      },
+      sort: { placeholder: "↕️ Ordenar por" },
+      selectItem: { label: "Seleccionar" },
+      deselectItem: { label: "Seleccionado" },
+      selectAll: { label: "Seleccionar todo" },
+      clearSelection: { label: "Borrar selección" },
+      selectionCount: { label: "%count% seleccionados" },
+      back: { label: "Volver" },
+      input: { label: "Responder" },
+      finish: { label: "Finalizar" },
+      confirm: { label: "Confirmar" },
+      cancel: { label: "Cancelar" }
+    }
+  },
+  "pt-BR": {
+    messages: {
+      actionDenied: "Você não tem permissão para fazer isso.",
+      cooldown: "Calma! Tente novamente em %seconds% s.",
+      rateLimited:
+        "Você está interagindo rápido demais, tente novamente em %seconds% s.",
+      menuUnavailable: "Esse menu não está disponível no momento.",
+      sessionExpired: "Este menu expirou, abra-o novamente para continuar.",
+      confirmationStale: "O menu mudou desde a pergunta, nada foi feito."
+    },
+    navigation: {
+      indicator: { label: "Página %page% / %pageMax%" },
+      goto: {
+        placeholder: "🔄 Ir para a página (%page% / %pageMax%)",
+        optionLabel: "Página %page%"
+      },
+      jump: {
+        modalTitle: "Ir para a página",
+        inputLabel: "Número da página"
+      },
+      gotoRange: {
+        placeholder: "📚 Páginas %start% - %end%",
+        optionLabel: "Páginas %start% - %end%"
+      },
+      search: {
+        modalTitle: "Pesquisar",
+        inputLabel: "Pesquisar por",
+        inputPlaceholder: "Deixe vazio para limpar a pesquisa"
+      },
+      sort: { placeholder: "↕️ Ordenar por" },
+      selectItem: { label: "Selecionar" },
+      deselectItem: { label: "Selecionado" },
+      selectAll: { label: "Selecionar tudo" },
+      clearSelection: { label: "Limpar seleção" },
+      selectionCount: { label: "%count% selecionados" },
+      back: { label: "Voltar" },
+      input: { label: "Responder" },
+      finish: { label: "Concluir" },
+      confirm: { label: "Confirmar" },
+      cancel: { label: "Cancelar" }
+    }
+  }
+}
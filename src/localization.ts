@@ -0,0 +1,124 @@
+import { merge } from "lodash"
+import { PLUGIN_DEFAULTS } from "./constants"
+import { BUILT_IN_LOCALES } from "./locales"
+import { getPluginConfig } from "./plugin"
+import type {
+  MenuLocaleCatalog,
+  MenuPluginOptions,
+  MenuTranslator
+} from "./types"
+
+// Localized options by locale, per plugin options so a new config starts over
+const localizedConfigs = new WeakMap<
+  MenuPluginOptions,
+  Map<string, MenuPluginOptions>
+>()
+
+/**
+ * Get the plugin options with navigation labels and messages in a locale
+ * Without a locale the options are returned as configured
+ */
+export function getLocalizedConfig(locale?: string | null): MenuPluginOptions {
+  const config = getPluginConfig()
+  if (!locale) {
+    return config
+  }
+
+  let configs = localizedConfigs.get(config)
+  if (!configs) {
+    configs = new Map()
+    localizedConfigs.set(config, configs)
+  }
+
+  let localized = configs.get(locale)
+  if (!localized) {
+    localized = localizeConfig(config, locale)
+    configs.set(locale, localized)
+  }
+
+  return localized
+}
+
+/**
+ * Find the catalog of a locale, or of another locale of its language
+ */
+function findCatalog(
+  locales: Record<string, MenuLocaleCatalog>,
+  locale: string
+): MenuLocaleCatalog | undefined {
+  if (locales[locale]) {
+    return locales[locale]
+  }
+
+  const language = locale.split("-")[0]
+  return Object.entries(locales).find(
+    ([key]) => key.split("-")[0] === language
+  )?.[1]
+}
+
+function localizeConfig(
+  config: MenuPluginOptions,
+  locale: string
+): MenuPluginOptions {
+  // Merging into a fresh object keeps the configured options untouched
+  const { navigation, messages } = merge(
+    {},
+    { navigation: config.navigation, messages: config.messages }
+  )
+
+  // Built-in texts only replace the defaults, never the bot's own texts
+  if (config.builtInLocales ?? true) {
+    const builtIn = findCatalog(BUILT_IN_LOCALES, locale)
+    applyOverDefaults(
+      navigation,
+      PLUGIN_DEFAULTS.navigation,
+      builtIn?.navigation
+    )
+    applyOverDefaults(messages, PLUGIN_DEFAULTS.messages, builtIn?.messages)
+  }
+
+  merge({ navigation, messages }, findCatalog(config.locales ?? {}, locale))
+
+  if (config.translate) {
+    translateTexts(navigation, "navigation", locale, config.translate)
+    translateTexts(messages, "messages", locale, config.translate)
+  }
+
+  return { ...config, navigation, messages }
+}
+
+/**
+ * Copy catalog texts onto the options that are still at their default
+ */
+function applyOverDefaults(
+  target: Record<string, any>,
+  defaults: Record<string, any> | undefined,
+  catalog: Record<string, any> | undefined
+): void {
+  for (const [key, value] of Object.entries(catalog ?? {})) {
+    if (value && typeof value === "object") {
+      if (target[key] && typeof target[key] === "object") {
+        applyOverDefaults(target[key], defaults?.[key], value)
+      }
+    } else if (target[key] === defaults?.[key]) {
+      target[key] = value
+    }
+  }
+}
+
+function translateTexts(
+  target: Record<string, any>,
+  path: string,
+  locale: string,
+  translate: MenuTranslator
+): void {
+  for (const [key, value] of Object.entries(target)) {
+    const keyPath = `${path}.${key}`
+
+    if (typeof value === "string") {
+      target[key] = translate(keyPath, locale, value) ?? value
+    } else if (value && typeof value === "object") {
+      translateTexts(value, keyPath, locale, translate)
+    }
+  }
+}
@@ -1,15 +1,40 @@
-import { Logger } from "commandkit"
-import type { RepliableInteraction } from "discord.js"
+import { randomBytes } from "node:crypto"
+import CommandKit, { Logger } from "commandkit"
+import {
+  type ContainerBuilder,
+  type InteractionResponse,
+  type Message,
+  MessageFlags,
+  type RepliableInteraction
+} from "discord.js"
+import { SHORT_ID_BYTES } from "./constants"
 import type { BaseMenu } from "./menus/base"
+import { SessionLimitError } from "./errors"
+import { menuEvents } from "./events"
+import { CursorPaginationMenu } from "./menus/cursor-pagination"
 import { PaginationMenu } from "./menus/pagination"
 import { SinglePageMenu } from "./menus/single"
+import { TabsMenu } from "./menus/tabs"
+import { WizardMenu } from "./menus/wizard"
+import { getPluginConfig } from "./plugin"
 import type {
+  CursorPaginationMenuDefinition,
   MenuData,
+  MenuDefinition,
   MenuParams,
   PaginationMenuDefinition,
-  SinglePageMenuDefinition
+  SessionExpireReason,
+  SessionLimitScope,
+  SessionLimits,
+  SessionStore,
+  SinglePageMenuDefinition,
+  StoredSession,
+  TabsMenuDefinition,
+  UserSession,
+  WizardMenuDefinition
 } from "./types"
 import { menuRegistry } from "./registry"
+import { getSessionStore, setSessionStore } from "./session-store"
 
 export interface CreateSessionOptions<Data extends MenuData> {
   /** Menu name to create session for */
@@ -24,19 +49,238 @@ export interface CreateSessionOptions<Data extends MenuData> {
 }
 
 export class MenuManager {
+  /** Lifecycle events fired by every session */
+  public readonly events = menuEvents
 
   /** Active menu sessions */
   private sessions = new Map<string, BaseMenu<any>>()
 
+  /** Session IDs of loaded sessions, by short ID */
+  private shortIds = new Map<string, string>()
+
   /** Session auto-destroy timers */
   private sessionTimers = new Map<string, NodeJS.Timeout>()
 
+  /** Session idle timers, restarted on every interaction */
+  private idleTimers = new Map<string, NodeJS.Timeout>()
+
+  /** Pending rehydrations, so concurrent lookups share one restore */
+  private restoring = new Map<string, Promise<BaseMenu<any> | undefined>>()
+
+  /** Interactions counted against the plugin's rate limit, by user */
+  private rateLimitWindows = new Map<
+    string,
+    { count: number; resetAt: number }
+  >()
+
+  /** When run out rate limit windows were last dropped */
+  private rateLimitSweptAt = 0
+
+  /**
+   * Set the store used to persist sessions
+   */
+  public setStore(store: SessionStore): void {
+    setSessionStore(store)
+  }
+
+  /**
+   * Get the store used to persist sessions
+   */
+  public getStore(): SessionStore {
+    return getSessionStore()
+  }
+
+  /**
+   * Open a menu for the interaction's user
+   * Creates or joins the session, renders it, replies to the interaction and
+   * records the message so broadcastUpdate can reach it
+   */
+  public async open<Data extends MenuData>(
+    options: CreateSessionOptions<Data>
+  ): Promise<BaseMenu<Data>> {
+    const { interaction } = options
+    const userId = interaction.user.id
+
+    const { menu, created } = await this.resolveSession(options)
+
+    // A new session still needs its data fetched, joined sessions are loaded
+    const page = await menu.withUserControls(
+      created ? await menu.render() : await menu.renderForUser(userId),
+      userId
+    )
+
+    const userSession = menu.getUserSession(userId)!
+
+    // A deferred reply already decided whether the response is ephemeral
+    if (interaction.deferred && interaction.ephemeral !== null) {
+      userSession.ephemeral = interaction.ephemeral
+    }
+
+    const flags = userSession.ephemeral
+      ? MessageFlags.IsComponentsV2 | MessageFlags.Ephemeral
+      : MessageFlags.IsComponentsV2
+
+    // Every viewer gets their own message, even when joining a shared session
+    let response: InteractionResponse | Message
+    if (interaction.deferred && !interaction.replied) {
+      response = await interaction.editReply({
+        components: [page],
+        flags: MessageFlags.IsComponentsV2
+      })
+    } else if (interaction.replied) {
+      response = await interaction.followUp({ components: [page], flags })
+    } else {
+      response = await interaction.reply({ components: [page], flags })
+    }
+
+    await menu.updateMessageContext(userId, response, interaction)
+
+    return menu
+  }
+
   /**
    * Create a new menu session
    */
   public async createSession<Data extends MenuData>(
     options: CreateSessionOptions<Data>
   ): Promise<BaseMenu<Data>> {
+    const { menu } = await this.resolveSession(options)
+    return menu
+  }
+
+  /**
+   * Show another menu in place of a user's current one, in the same message
+   * The user's position in the parent is kept on their navigation stack
+   * Returns the sub-menu's page, the caller updates the message with it
+   */
+  public async openSubMenu<Data extends MenuData>(
+    parent: BaseMenu<any>,
+    options: CreateSessionOptions<Data>
+  ): Promise<ContainerBuilder> {
+    const userId = options.interaction.user.id
+    const parentSession = parent.getUserSession(userId)
+    if (!parentSession) {
+      throw new Error(`User ${userId} is not viewing ${parent.getSessionId()}`)
+    }
+
+    const { menu, created } = await this.resolveSession(options)
+    if (menu === parent) {
+      throw new Error(`Menu "${parent.getName()}" cannot open itself`)
+    }
+
+    const page = created
+      ? await menu.render()
+      : await menu.renderForUser(userId)
+
+    const { menuStack = [], ...position } = parentSession
+    const userSession = menu.getUserSession(userId)!
+
+    // The sub-menu takes over the parent's message
+    copyMessageContext(parentSession, userSession)
+    userSession.menuStack = [
+      ...menuStack,
+      {
+        menuName: parent.getName(),
+        sessionId: parent.getSessionId(),
+        params: parent.getParams(),
+        userSession: position
+      }
+    ]
+    await menu.saveSession()
+
+    await this.leaveForSubMenu(parent, userId)
+
+    return menu.withUserControls(page, userId)
+  }
+
+  /**
+   * Return a user from a sub-menu to the menu they opened it from
+   * The parent is recreated if its session ended in the meantime
+   * Returns the parent's page at the user's previous position
+   */
+  public async closeSubMenu(
+    menu: BaseMenu<any>,
+    interaction: RepliableInteraction
+  ): Promise<ContainerBuilder | null> {
+    const userId = interaction.user.id
+    menu.clearPendingConfirmation(userId)
+
+    const userSession = menu.getUserSession(userId)
+    const entry = userSession?.menuStack?.at(-1)
+    if (!userSession || !entry) {
+      // Nothing to go back to, answer the press with the menu as it is
+      return menu.withUserControls(await menu.renderForUser(userId), userId)
+    }
+
+    const { menu: parent, created } = await this.resolveSession({
+      menu: entry.menuName,
+      params: entry.params,
+      interaction
+    })
+    if (created) {
+      await parent.render()
+    }
+
+    const parentSession: UserSession = {
+      ...entry.userSession,
+      menuStack: userSession.menuStack!.slice(0, -1),
+      locale: interaction.locale
+    }
+    copyMessageContext(userSession, parentSession)
+    await parent.addUserSession(parentSession)
+    this.touchSession(parent.getSessionId())
+
+    await this.leaveForSubMenu(menu, userId)
+
+    return parent.withUserControls(await parent.renderForUser(userId), userId)
+  }
+
+  /**
+   * Remove a user moving to another menu in the same message
+   * A session left without viewers is ended, unless a user can go back to it
+   */
+  private async leaveForSubMenu(
+    menu: BaseMenu<any>,
+    userId: string
+  ): Promise<void> {
+    menu.removeUserSession(userId, "subMenu")
+    await this.endIfAbandoned(menu.getSessionId())
+  }
+
+  /**
+   * End a loaded session no user is viewing or can go back to
+   */
+  private async endIfAbandoned(sessionId: string): Promise<void> {
+    const menu = this.sessions.get(sessionId)
+    if (
+      menu &&
+      menu.getAllUserSessions().length === 0 &&
+      !this.isOnMenuStack(sessionId)
+    ) {
+      await this.endSession(sessionId)
+    }
+  }
+
+  /**
+   * Whether a user of a loaded session can go back to a session
+   */
+  private isOnMenuStack(sessionId: string): boolean {
+    for (const menu of this.sessions.values()) {
+      for (const userSession of menu.getAllUserSessions()) {
+        if (userSession.menuStack?.some(e => e.sessionId === sessionId)) {
+          return true
+        }
+      }
+    }
+    return false
+  }
+
+  /**
+   * Create a new session or join/reuse an existing one
+   */
+  private async resolveSession<Data extends MenuData>(
+    options: CreateSessionOptions<Data>
+  ): Promise<{ menu: BaseMenu<Data>; created: boolean }> {
     const { menu: menuName, params, interaction } = options
     const userId = interaction.user.id
 
@@ -50,14 +294,14 @@ export class MenuManager {
     const ephemeral = definition.sessionOptions?.ephemeral ?? false
 
     const contextKey = await definition.createKey(params)
-    const existingMenu = this.sessions.get(contextKey)
+    const existingMenu = await this.getSession<Data>(contextKey)
 
     // Check if we should reuse an existing session
     if (existingMenu) {
       if (mode === "shared") {
         // Check if user already has this menu open
         if (existingMenu.hasUserSession(userId)) {
-          return existingMenu
+          return { menu: existingMenu, created: false }
         }
 
         // Add this user to the shared session
@@ -67,43 +311,49 @@ export class MenuManager {
           channelId: interaction.channelId!,
           currentPage: 0,
           ephemeral,
+          locale: interaction.locale,
           createdAt: Date.now()
         })
+        this.touchSession(contextKey)
 
-        return existingMenu
+        return { menu: existingMenu, created: false }
       } else if (mode === "private") {
         if (existingMenu.getCreatorId() !== userId) {
           throw new Error("This menu is currently in use by another user")
         }
 
-        return existingMenu
+        // The creator's message may have been cleaned up, track the new one
+        if (!existingMenu.hasUserSession(userId)) {
+          await existingMenu.addUserSession({
+            userId,
+            messageId: "",
+            channelId: interaction.channelId!,
+            currentPage: 0,
+            ephemeral,
+            locale: interaction.locale,
+            createdAt: Date.now()
+          })
+        }
+
+        return { menu: existingMenu, created: false }
       }
     }
 
-    // Create new menu based on type
-    let menu: BaseMenu<Data>
-
-    switch (definition.type) {
-      case "pagination":
-        menu = new PaginationMenu<Data>(
-          definition as PaginationMenuDefinition<Data>,
-          contextKey,
-          params,
-          userId,
-        )
-        break
+    const guildId = interaction.guildId ?? null
+    await this.enforceSessionLimits(definition, userId, guildId)
 
-      case "single":
-        menu = new SinglePageMenu<Data>(
-          definition as SinglePageMenuDefinition<Data>,
-          contextKey,
-          params,
-          userId
-        )
-        break
+    const menu = this.instantiateMenu<Data>(
+      definition,
+      contextKey,
+      params,
+      userId
+    )
+    menu.setGuildId(guildId)
+    menu.setShortId(this.createShortId())
 
-      default:
-        throw new Error(`Unknown menu: ${definition}`)
+    const ttl = definition.sessionOptions?.ttl
+    if (ttl) {
+      menu.setExpiresAt(Date.now() + ttl)
     }
 
     await menu.initialize()
@@ -115,42 +365,250 @@ export class MenuManager {
       channelId: interaction.channelId!,
       currentPage: 0,
       ephemeral,
+      locale: interaction.locale,
       createdAt: Date.now()
     })
 
     // Store the session
     this.sessions.set(contextKey, menu)
+    this.shortIds.set(menu.getShortId(), contextKey)
 
-    // Set up TTL if defined
-    const ttl = definition.sessionOptions?.ttl
+    // Set up TTL and idle timeout if defined
     if (ttl) {
       this.setupTTL(contextKey, ttl)
     }
+    this.touchSession(contextKey)
 
-    return menu
+    return { menu, created: true }
   }
 
   /**
    * Get an existing session
+   * Rehydrates the session from the session store if it is not loaded
+   */
+  public async getSession<Data extends MenuData>(
+    sessionId: string
+  ): Promise<BaseMenu<Data> | undefined> {
+    const menu = this.sessions.get(sessionId)
+    if (menu) {
+      return menu
+    }
+
+    let pending = this.restoring.get(sessionId)
+    if (!pending) {
+      pending = this.rehydrateSession(sessionId).finally(() =>
+        this.restoring.delete(sessionId)
+      )
+      this.restoring.set(sessionId, pending)
+    }
+
+    return pending
+  }
+
+  /**
+   * Get a session for work every process receives, e.g. queue messages
+   * A session not loaded here is rehydrated only by the shard serving its guild,
+   * so exactly one process handles it, even after a restart
    */
-  public getSession<Data extends MenuData>(
+  public async getOwnedSession<Data extends MenuData>(
     sessionId: string
-  ): BaseMenu<Data> | undefined {
-    return this.sessions.get(sessionId)
+  ): Promise<BaseMenu<Data> | undefined> {
+    const menu = this.sessions.get(sessionId)
+    if (menu) {
+      return menu
+    }
+
+    const stored = await getSessionStore().get(sessionId)
+    if (!stored || !this.servesGuild(stored.guildId ?? null)) {
+      return undefined
+    }
+
+    return this.getSession<Data>(sessionId)
+  }
+
+  /**
+   * Whether this process receives the interactions of a guild
+   * Direct messages go to the first shard, an unsharded client serves every guild
+   */
+  private servesGuild(guildId: string | null): boolean {
+    const client = CommandKit.instance?.client
+    if (!client?.shard) {
+      return true
+    }
+
+    return guildId
+      ? client.guilds.cache.has(guildId)
+      : client.shard.ids.includes(0)
   }
 
   /**
-   * Check if a session exists
+   * Get an existing session by the short ID in its custom IDs
+   * Sessions stored before short IDs use their session ID in its place
    */
-  public hasSession(sessionId: string): boolean {
-    return this.sessions.has(sessionId)
+  public async getSessionByShortId<Data extends MenuData>(
+    shortId: string
+  ): Promise<BaseMenu<Data> | undefined> {
+    const sessionId =
+      this.shortIds.get(shortId) ??
+      (await getSessionStore().getSessionIdByShortId(shortId))
+
+    return this.getSession<Data>(sessionId ?? shortId)
+  }
+
+  /**
+   * Create a short ID that no loaded session uses
+   * Custom IDs carry it in place of the session ID, which can be any length
+   * Stored sessions are not checked, random IDs of this size practically never collide
+   */
+  private createShortId(): string {
+    while (true) {
+      const shortId = randomBytes(SHORT_ID_BYTES).toString("base64url")
+      if (!this.shortIds.has(shortId) && !this.sessions.has(shortId)) {
+        return shortId
+      }
+    }
+  }
+
+  /**
+   * Check if a session exists, either loaded or in the session store
+   */
+  public async hasSession(sessionId: string): Promise<boolean> {
+    if (this.sessions.has(sessionId)) {
+      return true
+    }
+
+    return (await getSessionStore().get(sessionId)) !== undefined
+  }
+
+  /**
+   * Get every session loaded in this process that a user is viewing
+   * Found through the store's per-user index, sessions of other processes are
+   * not rehydrated, see getUserStoredSessions
+   */
+  public async getUserSessions(userId: string): Promise<BaseMenu<any>[]> {
+    const sessionIds = await getSessionStore().getUserSessionIds(userId)
+    const menus: BaseMenu<any>[] = []
+
+    for (const sessionId of sessionIds) {
+      const menu = this.sessions.get(sessionId)
+      if (menu?.hasUserSession(userId)) {
+        menus.push(menu)
+      }
+    }
+
+    return menus
+  }
+
+  /**
+   * Get the stored snapshot of every session a user is viewing
+   * Includes sessions opened on other shards or processes
+   */
+  public async getUserStoredSessions(userId: string): Promise<StoredSession[]> {
+    const store = getSessionStore()
+    const sessions: StoredSession[] = []
+
+    for (const sessionId of await store.getUserSessionIds(userId)) {
+      const session = await store.get(sessionId)
+      if (session?.userSessions.some(u => u.userId === userId)) {
+        sessions.push(session)
+      }
+    }
+
+    return sessions
+  }
+
+  /**
+   * Restart a session's idle timeout, if it has one
+   * Called whenever a user interacts with or joins the session
+   */
+  public touchSession(sessionId: string): void {
+    const menu = this.sessions.get(sessionId)
+    const idleTimeout = menu
+      ? menuRegistry.get(menu.getName()).sessionOptions?.idleTimeout
+      : undefined
+    if (!idleTimeout) {
+      return
+    }
+
+    clearTimeout(this.idleTimers.get(sessionId))
+    const timer = setTimeout(
+      () => this.expireSession(sessionId, "idle"),
+      idleTimeout
+    )
+    this.idleTimers.set(sessionId, timer)
+  }
+
+  /**
+   * Count an interaction against the plugin's rate limit
+   * Returns the milliseconds until the user may interact again, 0 if allowed
+   */
+  public consumeRateLimit(userId: string): number {
+    const rateLimit = getPluginConfig().rateLimit
+    if (!rateLimit) {
+      return 0
+    }
+
+    const now = Date.now()
+
+    // Drop run out windows at most once per window, so idle users are not kept around
+    if (now - this.rateLimitSweptAt >= rateLimit.window) {
+      this.rateLimitSweptAt = now
+      for (const [id, window] of this.rateLimitWindows) {
+        if (window.resetAt <= now) {
+          this.rateLimitWindows.delete(id)
+        }
+      }
+    }
+
+    const current = this.rateLimitWindows.get(userId)
+    if (!current || current.resetAt <= now) {
+      this.rateLimitWindows.set(userId, {
+        count: 1,
+        resetAt: now + rateLimit.window
+      })
+      return 0
+    }
+
+    if (current.count >= rateLimit.interactions) {
+      return current.resetAt - now
+    }
+
+    current.count++
+    return 0
+  }
+
+  /**
+   * Keep a session alive
+   * Restarts its idle timeout and, when `ms` is given, pushes its TTL back by `ms`
+   */
+  public async extendSession(sessionId: string, ms?: number): Promise<void> {
+    const menu = this.sessions.get(sessionId)
+    if (!menu) {
+      Logger.warn(`Session not found: ${sessionId}`)
+      return
+    }
+
+    this.touchSession(sessionId)
+
+    const expiresAt = menu.getExpiresAt()
+    if (!ms || expiresAt === undefined) {
+      return
+    }
+
+    const newExpiresAt = expiresAt + ms
+    menu.setExpiresAt(newExpiresAt)
+
+    clearTimeout(this.sessionTimers.get(sessionId))
+    this.setupTTL(sessionId, newExpiresAt - Date.now())
+
+    await menu.saveSession()
   }
 
   /**
    * End a session
    */
   public async endSession(sessionId: string): Promise<void> {
-    const menu = this.sessions.get(sessionId)
+    const menu = await this.getSession(sessionId)
 
     if (!menu) {
       Logger.warn(`Session not found: ${sessionId}`)
@@ -163,28 +621,287 @@ export class MenuManager {
       this.sessionTimers.delete(sessionId)
     }
 
+    const idleTimer = this.idleTimers.get(sessionId)
+    if (idleTimer) {
+      clearTimeout(idleTimer)
+      this.idleTimers.delete(sessionId)
+    }
+
     await menu.destroy()
     this.sessions.delete(sessionId)
+    this.shortIds.delete(menu.getShortId())
+    await getSessionStore().delete(sessionId)
+
+    // Menus kept for its users to go back to may now be abandoned
+    const parentIds = new Set(
+      menu
+        .getAllUserSessions()
+        .flatMap(u => u.menuStack ?? [])
+        .map(e => e.sessionId)
+    )
+    for (const parentId of parentIds) {
+      await this.endIfAbandoned(parentId)
+    }
   }
 
   /**
-   * Get all active session IDs
+   * Get all session IDs loaded in this process
    */
   public getAllSessions(): string[] {
     return Array.from(this.sessions.keys())
   }
 
   /**
-   * Get sessions count
+   * Get count of sessions loaded in this process
    */
   public getSessionCount(): number {
     return this.sessions.size
   }
 
+  /**
+   * Check menu and plugin-wide session limits before creating a session
+   * Either throws a SessionLimitError or ends the oldest sessions, per policy
+   */
+  private async enforceSessionLimits(
+    definition: MenuDefinition<any>,
+    userId: string,
+    guildId: string | null
+  ): Promise<void> {
+    const menuLimits = definition.sessionOptions?.limits
+    if (menuLimits) {
+      await this.enforceLimits(menuLimits, userId, guildId, definition.name)
+    }
+
+    const pluginLimits = getPluginConfig().sessionLimits
+    if (pluginLimits) {
+      await this.enforceLimits(pluginLimits, userId, guildId)
+    }
+  }
+
+  private async enforceLimits(
+    limits: SessionLimits,
+    userId: string,
+    guildId: string | null,
+    menuName?: string
+  ): Promise<void> {
+    const checks: Array<{
+      scope: SessionLimitScope
+      limit?: number
+      counts: (menu: BaseMenu<any>) => boolean
+    }> = [
+      {
+        scope: "user",
+        limit: limits.perUser,
+        counts: menu => menu.getCreatorId() === userId
+      },
+      {
+        scope: "guild",
+        limit: guildId ? limits.perGuild : undefined,
+        counts: menu => menu.getGuildId() === guildId
+      },
+      {
+        scope: "total",
+        limit: limits.total,
+        counts: () => true
+      }
+    ]
+
+    for (const { scope, limit, counts } of checks) {
+      if (limit === undefined) {
+        continue
+      }
+
+      const counted = Array.from(this.sessions.values()).filter(
+        menu => (!menuName || menu.getName() === menuName) && counts(menu)
+      )
+
+      if (counted.length < limit) {
+        continue
+      }
+
+      if ((limits.policy ?? "reject") === "reject" || limit <= 0) {
+        throw new SessionLimitError(scope, limit, menuName)
+      }
+
+      // Make room for the new session by ending the oldest ones
+      const oldest = counted
+        .sort((a, b) => a.getCreatedAt() - b.getCreatedAt())
+        .slice(0, counted.length - limit + 1)
+
+      for (const menu of oldest) {
+        await this.endSession(menu.getSessionId())
+      }
+    }
+  }
+
+  /**
+   * Rebuild a session from its stored snapshot
+   */
+  private async rehydrateSession(
+    sessionId: string
+  ): Promise<BaseMenu<any> | undefined> {
+    const store = getSessionStore()
+    const stored = await store.get(sessionId)
+    if (!stored) {
+      return undefined
+    }
+
+    if (!menuRegistry.has(stored.menuName)) {
+      Logger.warn(
+        `Cannot restore session ${sessionId}: menu "${stored.menuName}" is not registered`
+      )
+      return undefined
+    }
+
+    const definition = menuRegistry.get(stored.menuName)
+
+    // Sessions whose TTL ran out while nothing was loaded are discarded
+    const remaining =
+      stored.expiresAt !== undefined ? stored.expiresAt - Date.now() : undefined
+    if (remaining !== undefined && remaining <= 0) {
+      await store.delete(sessionId)
+      return undefined
+    }
+
+    const menu = await this.restoreMenu(definition, stored)
+    if (!menu) {
+      return undefined
+    }
+
+    this.sessions.set(sessionId, menu)
+    this.shortIds.set(menu.getShortId(), sessionId)
+
+    if (remaining !== undefined) {
+      this.setupTTL(sessionId, remaining)
+    }
+    this.touchSession(sessionId)
+
+    Logger.debug(`Restored session ${sessionId} from session store`)
+    return menu
+  }
+
+  private async restoreMenu(
+    definition: MenuDefinition<any>,
+    stored: StoredSession
+  ): Promise<BaseMenu<any> | undefined> {
+    try {
+      const menu = this.instantiateMenu(
+        definition,
+        stored.sessionId,
+        stored.params,
+        stored.creatorId
+      )
+      await menu.restore(stored)
+      return menu
+    } catch (error) {
+      Logger.error(`Failed to restore session ${stored.sessionId}: ${error}`)
+      return undefined
+    }
+  }
+
+  /**
+   * Create a new menu instance based on the definition type
+   */
+  private instantiateMenu<Data extends MenuData>(
+    definition: MenuDefinition<Data>,
+    sessionId: string,
+    params: MenuParams<Data>,
+    creatorId: string
+  ): BaseMenu<Data> {
+    switch (definition.type) {
+      case "pagination":
+        return new PaginationMenu<Data>(
+          definition as PaginationMenuDefinition<Data>,
+          sessionId,
+          params,
+          creatorId
+        )
+
+      case "single":
+        return new SinglePageMenu<Data>(
+          definition as SinglePageMenuDefinition<Data>,
+          sessionId,
+          params,
+          creatorId
+        )
+
+      case "cursor":
+        return new CursorPaginationMenu<Data>(
+          definition as CursorPaginationMenuDefinition<Data>,
+          sessionId,
+          params,
+          creatorId
+        )
+
+      case "tabs":
+        return new TabsMenu<Data>(
+          definition as TabsMenuDefinition<Data>,
+          sessionId,
+          params,
+          creatorId
+        )
+
+      case "wizard":
+        return new WizardMenu<Data>(
+          definition as WizardMenuDefinition<Data>,
+          sessionId,
+          params,
+          creatorId
+        )
+
+      default:
+        throw new Error(`Unknown menu: ${definition}`)
+    }
+  }
+
   private setupTTL(sessionId: string, ttl: number): void {
-    const timer = setTimeout(() => this.endSession(sessionId), ttl)
+    const timer = setTimeout(() => this.expireSession(sessionId, "ttl"), ttl)
     this.sessionTimers.set(sessionId, timer)
   }
+
+  /**
+   * Fire the sessionExpire event, then end the session
+   */
+  private async expireSession(
+    sessionId: string,
+    reason: SessionExpireReason
+  ): Promise<void> {
+    const menu = this.sessions.get(sessionId)
+
+    // Users in a sub-menu are active, the menu they go back to stays
+    if (
+      reason === "idle" &&
+      menu?.getAllUserSessions().length === 0 &&
+      this.isOnMenuStack(sessionId)
+    ) {
+      this.idleTimers.delete(sessionId)
+      return
+    }
+
+    if (menu) {
+      await menu.emitEvent("sessionExpire", {
+        params: menu.getParams(),
+        sessionId,
+        sessionData: menu.getSessionData(),
+        menuName: menu.getName(),
+        reason
+      })
+    }
+
+    await this.endSession(sessionId)
+  }
+}
+
+/**
+ * Point a user session at the message another one is displayed in
+ */
+function copyMessageContext(from: UserSession, to: UserSession): void {
+  to.messageId = from.messageId
+  to.channelId = from.channelId
+  to.interactionToken = from.interactionToken
+  to.interactionId = from.interactionId
+  to.tokenExpiresAt = from.tokenExpiresAt
+  to.ephemeral = from.ephemeral
 }
 
 export const menuManager = new MenuManager()
@@ -41,11 +41,9 @@ export class MenuQueue {
       // Get menu definition
       const definition = menuRegistry.get(menuName)
 
-      // Get or restore session
-      const menu = menuManager.getSession(contextKey)
-
+      // Every process receives the update, only the one owning the session applies it
+      const menu = await menuManager.getOwnedSession(contextKey)
       if (!menu) {
-        Logger.warn(`Menu session not found: ${contextKey}`)
         return
       }
 
@@ -72,7 +70,7 @@ export class MenuQueue {
 
       // Refetch items if requested
       if (refresh?.items !== false) {
-        await (menu as any).refetch()
+        await menu.refetch(true)
       }
 
       // refetch calls broadcastUpdate internally
@@ -85,6 +83,11 @@ export class MenuQueue {
 
   private async handleClose(message: MenuCloseMessage): Promise<void> {
     try {
+      // Only the process owning the session ends it, so messages finalize once
+      if (!(await menuManager.getOwnedSession(message.contextKey))) {
+        return
+      }
+
       await menuManager.endSession(message.contextKey)
     } catch (error) {
       Logger.error(`Error handling menu close: ${error}`)
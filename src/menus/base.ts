@@ -1,45 +1,103 @@
 import CommandKit, { Logger } from "commandkit"
 import {
+  ActionRowBuilder,
   type APIComponentInContainer,
-  type ButtonInteraction,
+  ButtonBuilder,
   type Client,
-  type ContainerBuilder,
+  ComponentType,
+  ContainerBuilder,
+  type GuildMember,
   type Interaction,
   type InteractionResponse,
+  Message,
+  type MessageComponentInteraction,
   type RGBTuple,
   resolveColor,
   type TextChannel,
-  WebhookClient,
-  AnySelectMenuInteraction
+  TextDisplayBuilder,
+  WebhookClient
 } from "discord.js"
-import { INTERNAL_ACTION_PREFIX, RESERVED_ACTIONS } from "../constants"
+import { isEqual } from "lodash"
+import {
+  INTERNAL_ACTION_PREFIX,
+  MAX_CUSTOM_ID_LENGTH,
+  MENU_EVENT_HOOKS,
+  RESERVED_ACTIONS
+} from "../constants"
+import { CustomIdLengthError } from "../errors"
+import { menuEvents } from "../events"
+import { getLocalizedConfig } from "../localization"
+import { menuManager } from "../manager"
+import { PageCache } from "../page-cache"
 import { getPluginConfig } from "../plugin"
+import { getSessionStore } from "../session-store"
 import type {
+  ActionConfirmation,
+  ActionDefinition,
+  ActionGuard,
   ActionHandler,
   BaseMenuDefinition,
   ContainerComponentOrFragment,
   MenuData,
+  MenuEvent,
+  MenuEventName,
+  MenuEvents,
+  MenuInteraction,
+  MenuItem,
   MenuParams,
+  MenuPluginOptions,
   MenuSession,
+  PageCacheStats,
+  PageNavigationButtonOptions,
+  PageNavigationType,
   SessionContext,
+  StoredSession,
+  UserLeaveReason,
   UserSession
 } from "../types"
+import {
+  collectCustomIds,
+  disableInteractiveComponents,
+  replyEphemeral,
+  restrictComponents,
+  transformComponentCustomId
+} from "../utils"
 
 export abstract class BaseMenu<Data extends MenuData> {
   protected definition: BaseMenuDefinition<Data>
   protected sessionId: string
+  protected shortId: string // Stands in for the session ID in custom IDs
   protected params: MenuParams<Data>
   protected sessionData: MenuSession<Data> = {}
   protected isInitialized = false
+  protected isDestroyed = false
   protected colorResolved?: RGBTuple | number
+  protected createdAt = Date.now()
+  protected expiresAt?: number
 
   protected creatorId: string // User who created the session
+  protected guildId: string | null = null // Guild the session was created in
 
   // User session tracking (userId -> session info)
   protected userSessions = new Map<string, UserSession>()
 
   // Action registry
-  protected actions = new Map<string, ActionHandler<Data>>()
+  protected actions = new Map<string, ActionDefinition<Data>>()
+
+  // Built pages shared by every viewer, bounded by the cache options
+  protected pageCache: PageCache
+
+  // Sub-menus requested by action handlers, by user
+  private subMenuRequests = new Map<string, { menu: string; params: any }>()
+
+  // Actions waiting for a user to confirm them, by user
+  private pendingConfirmations = new Map<
+    string,
+    { actionRaw: string; confirm: ActionConfirmation; target: unknown }
+  >()
+
+  // When users may press again, by user or by user and action
+  private cooldowns = new Map<string, number>()
 
   constructor(
     definition: BaseMenuDefinition<Data>,
@@ -49,16 +107,74 @@ export abstract class BaseMenu<Data extends MenuData> {
   ) {
     this.definition = definition
     this.sessionId = sessionId
+    this.shortId = sessionId
     this.params = params
     this.creatorId = creatorId
+    this.pageCache = new PageCache(definition.pageCache)
 
     if (definition.actions) {
-      for (const [actionName, handler] of Object.entries(definition.actions)) {
-        this.registerAction(actionName, handler)
+      for (const [actionName, action] of Object.entries(definition.actions)) {
+        this.registerAction(actionName, action)
       }
     }
   }
 
+  /**
+   * Get the registered menu name
+   */
+  public getName(): string {
+    return this.definition.name
+  }
+
+  /**
+   * Get session ID
+   */
+  public getSessionId(): string {
+    return this.sessionId
+  }
+
+  /**
+   * Get the short ID used in custom IDs in place of the session ID
+   */
+  public getShortId(): string {
+    return this.shortId
+  }
+
+  /**
+   * Set the short ID used in custom IDs, before the session renders
+   */
+  public setShortId(shortId: string): void {
+    this.shortId = shortId
+  }
+
+  /**
+   * Get timestamp when the session was created
+   */
+  public getCreatedAt(): number {
+    return this.createdAt
+  }
+
+  /**
+   * Get timestamp when the session's TTL runs out
+   */
+  public getExpiresAt(): number | undefined {
+    return this.expiresAt
+  }
+
+  /**
+   * Set timestamp when the session's TTL runs out
+   */
+  public setExpiresAt(expiresAt: number | undefined): void {
+    this.expiresAt = expiresAt
+  }
+
+  /**
+   * Keep the session alive, see MenuManager.extendSession
+   */
+  public async extend(ms?: number): Promise<void> {
+    await menuManager.extendSession(this.sessionId, ms)
+  }
+
   /**
    * Get creator ID
    */
@@ -66,6 +182,20 @@ export abstract class BaseMenu<Data extends MenuData> {
     return this.creatorId
   }
 
+  /**
+   * Get the guild the session was created in
+   */
+  public getGuildId(): string | null {
+    return this.guildId
+  }
+
+  /**
+   * Set the guild the session was created in
+   */
+  public setGuildId(guildId: string | null): void {
+    this.guildId = guildId
+  }
+
   /**
    * Get menu params
    */
@@ -78,6 +208,7 @@ export abstract class BaseMenu<Data extends MenuData> {
    */
   public setSessionData(sessionData: MenuSession<Data>): void {
     this.sessionData = sessionData
+    void this.saveSession()
   }
 
   /**
@@ -91,14 +222,54 @@ export abstract class BaseMenu<Data extends MenuData> {
    * Add a user session
    */
   public async addUserSession(userSession: UserSession): Promise<void> {
+    const isJoin = !this.userSessions.has(userSession.userId)
+
     this.userSessions.set(userSession.userId, userSession)
+    await this.saveSession()
+
+    if (isJoin) {
+      await this.emitEvent("userJoin", {
+        ...this.createEventContext(),
+        userId: userSession.userId,
+        userSession
+      })
+    }
+  }
+
+  /**
+   * Get the Discord locale of a user's last interaction
+   */
+  public getUserLocale(userId: string): string | undefined {
+    return this.userSessions.get(userId)?.locale
+  }
+
+  /**
+   * Set the Discord locale a user's navigation renders in
+   */
+  public setUserLocale(userId: string, locale: string): void {
+    const session = this.userSessions.get(userId)
+    if (session) {
+      session.locale = locale
+    }
   }
 
   /**
    * Remove a user session
    */
-  public removeUserSession(userId: string): void {
-    this.userSessions.delete(userId)
+  public removeUserSession(
+    userId: string,
+    reason: UserLeaveReason = "removed"
+  ): void {
+    if (!this.userSessions.delete(userId)) {
+      return
+    }
+
+    void this.saveSession()
+    void this.emitEvent("userLeave", {
+      ...this.createEventContext(),
+      userId,
+      reason
+    })
   }
 
   /**
@@ -151,8 +322,9 @@ export abstract class BaseMenu<Data extends MenuData> {
 
   /**
    * Broadcast update to all users with this menu open
+   * Optionally skip a user whose message is updated through their interaction
    */
-  public async broadcastUpdate(): Promise<void> {
+  public async broadcastUpdate(excludeUserId?: string): Promise<void> {
     const client = CommandKit.instance?.client
     if (!client) {
       Logger.error("Cannot broadcast update: CommandKit client not available")
@@ -162,6 +334,10 @@ export abstract class BaseMenu<Data extends MenuData> {
     const updatePromises: Promise<void>[] = []
 
     for (const userSession of this.userSessions.values()) {
+      if (userSession.userId === excludeUserId) {
+        continue
+      }
+
       updatePromises.push(this.updateUserMessage(client, userSession.userId))
     }
 
@@ -171,10 +347,11 @@ export abstract class BaseMenu<Data extends MenuData> {
   /**
    * Update message context after interaction reply
    * Handles both ephemeral and non-ephemeral messages
+   * Accepts the response of reply, or the message from editReply / followUp
    */
   public async updateMessageContext(
     userId: string,
-    response: InteractionResponse,
+    response: InteractionResponse | Message,
     interaction: Interaction
   ) {
     const session = this.userSessions.get(userId)
@@ -184,7 +361,9 @@ export abstract class BaseMenu<Data extends MenuData> {
 
     try {
       if (session.ephemeral) {
-        session.messageId = "@original"
+        // Follow-ups are separate messages, edit them by their own ID
+        session.messageId =
+          response instanceof Message ? response.id : "@original"
         session.channelId = interaction.channelId!
 
         // Store interaction token and ID for editing later
@@ -197,7 +376,8 @@ export abstract class BaseMenu<Data extends MenuData> {
         Logger.debug(`Updated ephemeral message context for user ${userId}`)
       } else {
         // For non-ephemeral messages, fetch to get the message ID
-        const message = await response.fetch()
+        const message =
+          response instanceof Message ? response : await response.fetch()
         session.messageId = message.id
         session.channelId = message.channelId
 
@@ -210,6 +390,8 @@ export abstract class BaseMenu<Data extends MenuData> {
         `Failed to update message context for user ${userId}: ${error}`
       )
     }
+
+    await this.saveSession()
   }
 
   /**
@@ -229,29 +411,87 @@ export abstract class BaseMenu<Data extends MenuData> {
 
     try {
       // Render the page for this specific user
-      const page = await this.renderForUser(userId)
+      const page = await this.withUserControls(
+        await this.renderForUser(userId),
+        userId
+      )
 
-      const updatePayload = {
+      await this.editUserMessage(client, userSession, {
         components: [page]
-      }
+      })
+    } catch (error) {
+      Logger.error(`Failed to update message for user ${userId}: ${error}`)
+    }
+  }
 
+  /**
+   * Edit a user's message with the given payload
+   */
+  private async editUserMessage(
+    client: Client,
+    userSession: UserSession,
+    payload: any
+  ): Promise<void> {
+    if (userSession.ephemeral) {
+      await this.updateEphemeralMessage(
+        client,
+        userSession.userId,
+        userSession,
+        payload
+      )
+    } else {
+      await this.updateNonEphemeralMessage(
+        client,
+        userSession.userId,
+        userSession,
+        payload
+      )
+    }
+  }
+
+  /**
+   * Delete a user's message
+   * Messages that are already gone or no longer reachable are skipped
+   */
+  private async deleteUserMessage(
+    client: Client,
+    userSession: UserSession
+  ): Promise<void> {
+    const { userId, messageId } = userSession
+
+    try {
       if (userSession.ephemeral) {
-        await this.updateEphemeralMessage(
-          client,
-          userId,
-          userSession,
-          updatePayload
-        )
+        if (
+          !userSession.interactionToken ||
+          !userSession.tokenExpiresAt ||
+          Date.now() > userSession.tokenExpiresAt
+        ) {
+          Logger.debug(`Cannot delete ephemeral message for user ${userId}`)
+          return
+        }
+
+        const webhook = new WebhookClient({
+          id: client.user!.id,
+          token: userSession.interactionToken
+        })
+        await webhook.deleteMessage(messageId)
       } else {
-        await this.updateNonEphemeralMessage(
-          client,
-          userId,
-          userSession,
-          updatePayload
-        )
+        const channel = await client.channels.fetch(userSession.channelId)
+        if (!channel?.isTextBased()) {
+          Logger.warn(`Channel ${userSession.channelId} is not text-based`)
+          return
+        }
+
+        await (channel as TextChannel).messages.delete(messageId)
       }
+
+      Logger.debug(`Deleted message ${messageId} for user ${userId}`)
     } catch (error) {
-      Logger.error(`Failed to update message for user ${userId}: ${error}`)
+      if (error instanceof Error && error.message.includes("Unknown Message")) {
+        Logger.debug(`Message ${messageId} already deleted for user ${userId}`)
+      } else {
+        throw error
+      }
     }
   }
 
@@ -275,7 +515,7 @@ export abstract class BaseMenu<Data extends MenuData> {
     // Check token expiry
     if (Date.now() > userSession.tokenExpiresAt) {
       Logger.warn(`Interaction token expired for user ${userId}`)
-      this.userSessions.delete(userId)
+      this.removeUserSession(userId, "tokenExpired")
       return
     }
 
@@ -290,15 +530,19 @@ export abstract class BaseMenu<Data extends MenuData> {
     } catch (error) {
       // Handle webhook-specific errors
       if (error instanceof Error) {
-        if (
+        if (error.message.includes("Unknown Message")) {
+          Logger.warn(
+            `Ephemeral message no longer exists for user ${userId}: ${error}`
+          )
+          await this.handleMessageDeleted(userSession)
+        } else if (
           error.message.includes("Unknown Webhook") ||
-          error.message.includes("Invalid Webhook Token") ||
-          error.message.includes("Unknown Message")
+          error.message.includes("Invalid Webhook Token")
         ) {
           Logger.warn(
             `Ephemeral message no longer accessible for user ${userId}: ${error}`
           )
-          this.userSessions.delete(userId)
+          this.removeUserSession(userId, "tokenExpired")
         } else {
           // Re-throw other errors
           throw error
@@ -334,7 +578,7 @@ export abstract class BaseMenu<Data extends MenuData> {
         Logger.warn(
           `Message ${userSession.messageId} no longer exists for user ${userId}`
         )
-        this.userSessions.delete(userId)
+        await this.handleMessageDeleted(userSession)
       } else {
         // Re-throw other errors
         throw error
@@ -342,6 +586,45 @@ export abstract class BaseMenu<Data extends MenuData> {
     }
   }
 
+  /**
+   * Fire the messageDelete event and stop tracking the user
+   */
+  private async handleMessageDeleted(userSession: UserSession): Promise<void> {
+    await this.emitEvent("messageDelete", {
+      ...this.createEventContext(),
+      userId: userSession.userId,
+      messageId: userSession.messageId,
+      channelId: userSession.channelId
+    })
+
+    this.removeUserSession(userSession.userId, "messageDeleted")
+  }
+
+  /**
+   * Emit a lifecycle event to the definition hook and global listeners
+   * Hook errors are logged, never thrown
+   */
+  public async emitEvent<K extends MenuEventName>(
+    event: K,
+    payload: MenuEvents<Data>[K]
+  ): Promise<void> {
+    const hook = this.definition[MENU_EVENT_HOOKS[event]] as
+      | ((payload: MenuEvents<Data>[K]) => unknown)
+      | undefined
+
+    if (hook) {
+      try {
+        await hook(payload)
+      } catch (error) {
+        Logger.error(
+          `Error in ${MENU_EVENT_HOOKS[event]} for ${this.definition.name}: ${error}`
+        )
+      }
+    }
+
+    await menuEvents.emit(event, payload)
+  }
+
   public async initialize(): Promise<void> {
     if (this.isInitialized) {
       return
@@ -360,6 +643,61 @@ export abstract class BaseMenu<Data extends MenuData> {
     this.isInitialized = true
   }
 
+  /**
+   * Restore state from a stored snapshot and reload menu data
+   * Skips onSessionStart, the stored session data is used instead
+   */
+  public async restore(stored: StoredSession): Promise<void> {
+    this.sessionData = stored.sessionData
+    this.shortId = stored.shortId ?? stored.sessionId
+    this.createdAt = stored.createdAt
+    this.guildId = stored.guildId ?? null
+    this.expiresAt = stored.expiresAt
+    this.userSessions = new Map(stored.userSessions.map(s => [s.userId, s]))
+
+    if (this.definition.color) {
+      this.colorResolved = resolveColor(this.definition.color)
+    }
+
+    this.isInitialized = true
+
+    await this.render()
+  }
+
+  /**
+   * Create a serializable snapshot of this session
+   */
+  public toStoredSession(): StoredSession {
+    return {
+      menuName: this.definition.name,
+      sessionId: this.sessionId,
+      shortId: this.shortId,
+      params: this.params,
+      sessionData: this.sessionData,
+      creatorId: this.creatorId,
+      guildId: this.guildId,
+      userSessions: this.getAllUserSessions(),
+      createdAt: this.createdAt,
+      expiresAt: this.expiresAt
+    }
+  }
+
+  /**
+   * Persist this session to the configured session store
+   */
+  public async saveSession(): Promise<void> {
+    // Ended sessions are deleted from the store, never write them back
+    if (this.isDestroyed) {
+      return
+    }
+
+    try {
+      await getSessionStore().set(this.toStoredSession())
+    } catch (error) {
+      Logger.error(`Failed to save session ${this.sessionId}: ${error}`)
+    }
+  }
+
   protected createSessionContext(): SessionContext<Data> {
     return {
       params: this.params,
@@ -368,12 +706,19 @@ export abstract class BaseMenu<Data extends MenuData> {
     }
   }
 
+  protected createEventContext(): MenuEvent<Data> {
+    return {
+      ...this.createSessionContext(),
+      menuName: this.definition.name
+    }
+  }
+
   protected async renderTitle(): Promise<APIComponentInContainer[] | null> {
     if (this.definition.renderTitle) {
       const ctx = this.createSessionContext()
       const title = await this.definition.renderTitle(ctx)
 
-      return this.handleComponentOrFragment(title)
+      return this.transformSessionComponents(title)
     }
     return null
   }
@@ -383,11 +728,26 @@ export abstract class BaseMenu<Data extends MenuData> {
       const ctx = this.createSessionContext()
       const footer = await this.definition.renderFooter(ctx)
 
-      return this.handleComponentOrFragment(footer)
+      return this.transformSessionComponents(footer)
     }
     return null
   }
 
+  /**
+   * Point the custom IDs of components outside any item at this session
+   * Title and footer actions run without an item, e.g. bulk actions
+   */
+  private transformSessionComponents(
+    component: ContainerComponentOrFragment
+  ): APIComponentInContainer[] {
+    return transformComponentCustomId(
+      this.handleComponentOrFragment(component),
+      getPluginConfig().actionPrefix,
+      this.shortId,
+      new Set(this.actions.keys())
+    ) as APIComponentInContainer[]
+  }
+
   protected handleComponentOrFragment(
     component: ContainerComponentOrFragment
   ): APIComponentInContainer[] {
@@ -403,7 +763,7 @@ export abstract class BaseMenu<Data extends MenuData> {
    */
   protected registerAction(
     actionName: string,
-    handler: ActionHandler<Data>
+    action: ActionHandler<Data> | ActionDefinition<Data>
   ): void {
     if (RESERVED_ACTIONS.has(actionName)) {
       throw new Error(
@@ -416,7 +776,10 @@ export abstract class BaseMenu<Data extends MenuData> {
       throw new Error(`Action "${actionName}" is already registered.`)
     }
 
-    this.actions.set(actionName, handler)
+    this.actions.set(
+      actionName,
+      typeof action === "function" ? { handler: action } : action
+    )
   }
 
   protected createActionId(action: string): string {
@@ -425,7 +788,449 @@ export abstract class BaseMenu<Data extends MenuData> {
     }
 
     const pluginConfig = getPluginConfig()
-    return `${pluginConfig.actionPrefix}:${this.sessionId}:${action}`
+    return this.validateCustomId(
+      `${pluginConfig.actionPrefix}:${this.shortId}:${action}`
+    )
+  }
+
+  /**
+   * Run a user-defined action and fire the action event
+   * Returns false if the action could not run
+   */
+  protected async invokeAction(
+    interaction: MenuInteraction,
+    action: string,
+    item?: MenuItem<Data>,
+    items?: MenuItem<Data>[]
+  ): Promise<boolean> {
+    const actionDefinition = this.actions.get(action)
+    if (!actionDefinition) {
+      Logger.warn(`Unknown action: ${action} for ${this.definition.name}`)
+      return false
+    }
+
+    // Actions are bound to components, modals are only used by navigation
+    if (!interaction.isMessageComponent()) {
+      Logger.warn(`Action ${action} cannot be triggered by a modal submit`)
+      return false
+    }
+
+    const userId = interaction.user.id
+
+    const cooldownKey = `${userId}:${action}`
+    if (
+      !(await this.guardAction(interaction, actionDefinition, item)) ||
+      !(await this.checkCooldown(interaction, cooldownKey))
+    ) {
+      return false
+    }
+
+    // Started before the handler, so presses while it runs are rejected
+    this.startCooldown(cooldownKey, actionDefinition.cooldown)
+
+    await actionDefinition.handler({
+      interaction,
+      params: this.params,
+      sessionData: this.sessionData,
+      sessionId: this.sessionId,
+      item,
+      items,
+      userId,
+      extendSession: ms => this.extend(ms),
+      openMenu: (menu, params) => {
+        this.subMenuRequests.set(userId, { menu, params })
+      }
+    })
+
+    await this.emitEvent("action", {
+      ...this.createEventContext(),
+      userId,
+      action,
+      item,
+      items
+    })
+
+    return true
+  }
+
+  /**
+   * Route an interaction to the menu
+   * Actions declared with `confirm` only run once the user confirms them,
+   * any other interaction of the user drops the pending confirmation
+   * Presses are rejected while the user's session cooldown runs
+   */
+  public async dispatchInteraction(
+    interaction: MenuInteraction,
+    actionRaw: string
+  ): Promise<ContainerBuilder | null> {
+    const userId = interaction.user.id
+    const pending = this.pendingConfirmations.get(userId)
+
+    // Answering a confirmation or submitting a modal completes a press
+    if (!pending && !interaction.isModalSubmit()) {
+      if (!(await this.checkCooldown(interaction, userId))) {
+        return null
+      }
+      this.startCooldown(userId, this.definition.sessionOptions?.cooldown)
+    }
+
+    this.pendingConfirmations.delete(userId)
+
+    const parsed = this.parseActionId(actionRaw)
+
+    if (parsed?.type === "navigation") {
+      switch (parsed.action) {
+        case "confirm": {
+          // A stale prompt (e.g. after a restart) just shows the menu again
+          if (!pending) {
+            return this.renderForUser(userId)
+          }
+
+          // Refetches, sorts or page changes may have moved what the prompt showed
+          const target = await this.getActionTarget(userId, pending.actionRaw)
+          if (target !== pending.target && !isEqual(target, pending.target)) {
+            await replyEphemeral(
+              interaction,
+              getLocalizedConfig(interaction.locale).messages.confirmationStale
+            )
+            return null
+          }
+
+          // Run the action as if it was pressed again, against the same view
+          return this.handleInteraction(interaction, pending.actionRaw)
+        }
+
+        case "cancel":
+          return this.renderForUser(userId)
+      }
+    } else if (parsed && this.canInteract(userId)) {
+      const actionDefinition = this.actions.get(parsed.action)
+      if (actionDefinition?.confirm && interaction.isMessageComponent()) {
+        // Users who may not run the action are never asked to confirm it
+        if (
+          !(await this.guardAction(interaction, actionDefinition)) ||
+          !(await this.checkCooldown(interaction, `${userId}:${parsed.action}`))
+        ) {
+          return null
+        }
+
+        this.pendingConfirmations.set(userId, {
+          actionRaw,
+          confirm: actionDefinition.confirm,
+          target: await this.getActionTarget(userId, actionRaw)
+        })
+        return this.renderForUser(userId)
+      }
+    }
+
+    return this.handleInteraction(interaction, actionRaw)
+  }
+
+  /**
+   * Drop the confirmation a user was asked for, e.g. when they leave the menu
+   */
+  public clearPendingConfirmation(userId: string): void {
+    this.pendingConfirmations.delete(userId)
+  }
+
+  /**
+   * Get what a user action would run against for a user, e.g. its item
+   * Compared when a confirmation is answered, menus with items override it
+   */
+  protected async getActionTarget(
+    _userId: string,
+    _actionRaw: string
+  ): Promise<unknown> {
+    return undefined
+  }
+
+  /**
+   * Get a user's guild member, null outside of guilds or if they left it
+   */
+  private async fetchMember(userId: string): Promise<GuildMember | null> {
+    if (!this.guildId) {
+      return null
+    }
+
+    const guild = CommandKit.instance?.client?.guilds.cache.get(this.guildId)
+    if (!guild) {
+      return null
+    }
+
+    try {
+      return await guild.members.fetch(userId)
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Check whether a user passes an action's guard
+   * Without an interaction (while rendering) permissions are resolved in the
+   * user's channel when it is cached, otherwise guild-wide
+   */
+  protected async passesGuard(
+    guard: ActionGuard<Data>,
+    userId: string,
+    interaction?: MessageComponentInteraction,
+    item?: MenuItem<Data>
+  ): Promise<boolean> {
+    const needsMember = Boolean(guard.permissions || guard.roles?.length)
+    const member =
+      needsMember || guard.check ? await this.fetchMember(userId) : null
+
+    if (needsMember && !member) {
+      return false
+    }
+
+    if (member && guard.permissions) {
+      const channelId = this.userSessions.get(userId)?.channelId
+      const channel = channelId
+        ? member.guild.channels.cache.get(channelId)
+        : undefined
+      const permissions = interaction
+        ? interaction.memberPermissions
+        : channel
+          ? member.permissionsIn(channel)
+          : member.permissions
+
+      if (!permissions?.has(guard.permissions)) {
+        return false
+      }
+    }
+
+    if (
+      member &&
+      guard.roles?.length &&
+      !member.roles.cache.hasAny(...guard.roles)
+    ) {
+      return false
+    }
+
+    if (guard.check) {
+      return guard.check({
+        ...this.createSessionContext(),
+        userId,
+        member,
+        interaction,
+        item
+      })
+    }
+
+    return true
+  }
+
+  /**
+   * Check an action's guard for a press, replying ephemerally when denied
+   */
+  private async guardAction(
+    interaction: MessageComponentInteraction,
+    actionDefinition: ActionDefinition<Data>,
+    item?: MenuItem<Data>
+  ): Promise<boolean> {
+    const { guard } = actionDefinition
+    if (
+      !guard ||
+      (await this.passesGuard(guard, interaction.user.id, interaction, item))
+    ) {
+      return true
+    }
+
+    await replyEphemeral(
+      interaction,
+      guard.deniedMessage ??
+        getLocalizedConfig(interaction.locale).messages.actionDenied
+    )
+    return false
+  }
+
+  /**
+   * Check whether a user is still cooling down, replying ephemerally if so
+   * Keys are the user's ID, or user ID and action name for action cooldowns
+   */
+  private async checkCooldown(
+    interaction: MenuInteraction,
+    key: string
+  ): Promise<boolean> {
+    const remaining = (this.cooldowns.get(key) ?? 0) - Date.now()
+    if (remaining <= 0) {
+      this.cooldowns.delete(key)
+      return true
+    }
+
+    await replyEphemeral(
+      interaction,
+      getLocalizedConfig(interaction.locale).messages.cooldown,
+      remaining
+    )
+    return false
+  }
+
+  private startCooldown(key: string, ms?: number): void {
+    if (ms) {
+      this.cooldowns.set(key, Date.now() + ms)
+    }
+  }
+
+  /**
+   * Hide or disable the components of guarded actions a user may not use
+   */
+  private async restrictActions(
+    components: APIComponentInContainer[],
+    userId: string
+  ): Promise<APIComponentInContainer[] | null> {
+    const denied = new Map<string, "hide" | "disable">()
+    for (const [actionName, { guard }] of this.actions) {
+      if (guard && !(await this.passesGuard(guard, userId))) {
+        denied.set(actionName, guard.display ?? "disable")
+      }
+    }
+
+    if (denied.size === 0) {
+      return null
+    }
+
+    const sessionPrefix = `${getPluginConfig().actionPrefix}:${this.shortId}:`
+    return restrictComponents(components, customId => {
+      if (!customId.startsWith(sessionPrefix)) {
+        return null
+      }
+
+      const parsed = this.parseActionId(customId.slice(sessionPrefix.length))
+      return parsed?.type === "user"
+        ? (denied.get(parsed.action) ?? null)
+        : null
+    })
+  }
+
+  /**
+   * Take the sub-menu an action handler asked to open for a user, if any
+   */
+  public takeSubMenuRequest(
+    userId: string
+  ): { menu: string; params: any } | undefined {
+    const request = this.subMenuRequests.get(userId)
+    this.subMenuRequests.delete(userId)
+    return request
+  }
+
+  /**
+   * Add a user's own controls to a page, like a confirmation prompt or the
+   * back button of a sub-menu, and restrict the actions they may not use
+   * Pages are cached and shared by viewers, so a copy is returned
+   */
+  public async withUserControls(
+    page: ContainerBuilder,
+    userId: string
+  ): Promise<ContainerBuilder> {
+    const config = this.getNavigationConfig(this.getUserLocale(userId))
+    const controls: APIComponentInContainer[] = []
+
+    const pending = this.pendingConfirmations.get(userId)
+    if (pending) {
+      const { confirm } = pending
+
+      const confirmButton = this.buildNavigationButton(config, "confirm", false)
+      if (confirm.confirmLabel) {
+        confirmButton.setLabel(confirm.confirmLabel)
+      }
+      const cancelButton = this.buildNavigationButton(config, "cancel", false)
+      if (confirm.cancelLabel) {
+        cancelButton.setLabel(confirm.cancelLabel)
+      }
+
+      controls.push(
+        new TextDisplayBuilder().setContent(confirm.message).toJSON(),
+        new ActionRowBuilder()
+          .addComponents(confirmButton, cancelButton)
+          .toJSON() as APIComponentInContainer
+      )
+    }
+
+    if (this.userSessions.get(userId)?.menuStack?.length) {
+      controls.push(
+        new ActionRowBuilder()
+          .addComponents(this.buildNavigationButton(config, "back", false))
+          .toJSON() as APIComponentInContainer
+      )
+    }
+
+    const json = page.toJSON()
+    const restricted = await this.restrictActions(json.components, userId)
+    const components = [...(restricted ?? json.components), ...controls]
+
+    // Every page sent to a user passes through here
+    for (const customId of collectCustomIds(components)) {
+      this.validateCustomId(customId)
+    }
+
+    if (controls.length === 0 && !restricted) {
+      return page
+    }
+
+    return new ContainerBuilder({ ...json, components })
+  }
+
+  /**
+   * Throw if a custom ID is longer than Discord allows
+   */
+  protected validateCustomId(customId: string): string {
+    if (customId.length <= MAX_CUSTOM_ID_LENGTH) {
+      return customId
+    }
+
+    const sessionPrefix = `${getPluginConfig().actionPrefix}:${this.shortId}:`
+    const action = customId.startsWith(sessionPrefix)
+      ? this.parseActionId(customId.slice(sessionPrefix.length))?.action
+      : undefined
+
+    throw new CustomIdLengthError(
+      this.definition.name,
+      action ?? customId,
+      customId
+    )
+  }
+
+  /**
+   * Get the plugin options navigation controls render with, in a locale
+   */
+  protected getNavigationConfig(locale?: string): MenuPluginOptions {
+    return getLocalizedConfig(locale)
+  }
+
+  protected createNavigationActionId(
+    action: string,
+    itemIndex?: number
+  ): string {
+    const config = getPluginConfig()
+    const customId = `${config.actionPrefix}:${this.shortId}:${INTERNAL_ACTION_PREFIX}${action}`
+    return this.validateCustomId(
+      itemIndex !== undefined ? `${customId}|${itemIndex}` : customId
+    )
+  }
+
+  protected buildNavigationButton(
+    config: MenuPluginOptions,
+    action: PageNavigationType,
+    disabled: boolean
+  ): ButtonBuilder {
+    const buttonOptions = config.navigation[
+      action
+    ] as PageNavigationButtonOptions
+    const buttonId = this.createNavigationActionId(action)
+    const button = new ButtonBuilder()
+      .setCustomId(buttonId)
+      .setStyle(buttonOptions.style)
+      .setDisabled(disabled)
+
+    if (buttonOptions.emoji) {
+      button.setEmoji(buttonOptions.emoji)
+    }
+    if (buttonOptions.label) {
+      button.setLabel(buttonOptions.label)
+    }
+
+    return button
   }
 
   /**
@@ -437,15 +1242,14 @@ export abstract class BaseMenu<Data extends MenuData> {
     itemIndex?: number
   } | null {
     // Check if it's a navigation action
-    if (action.startsWith(INTERNAL_ACTION_PREFIX)) {
-      const actionName = action.slice(INTERNAL_ACTION_PREFIX.length)
-      return {
-        type: "navigation",
-        action: actionName
-      }
+    const type = action.startsWith(INTERNAL_ACTION_PREFIX)
+      ? "navigation"
+      : "user"
+    if (type === "navigation") {
+      action = action.slice(INTERNAL_ACTION_PREFIX.length)
     }
 
-    // It's a user action, check for an item index (we always append to last part)
+    // Check for an item index (we always append to last part)
     if (action.includes("|")) {
       const [actionName, ...rest] = action.split("|")
       const itemIndex = parseInt(rest[rest.length - 1], 10)
@@ -455,14 +1259,14 @@ export abstract class BaseMenu<Data extends MenuData> {
       }
 
       return {
-        type: "user",
+        type,
         action: actionName,
         itemIndex
       }
     }
 
     return {
-      type: "user",
+      type,
       action: action
     }
   }
@@ -489,6 +1293,8 @@ export abstract class BaseMenu<Data extends MenuData> {
   }
 
   public async destroy(): Promise<void> {
+    this.isDestroyed = true
+
     if (this.definition.onSessionEnd) {
       await this.definition.onSessionEnd({
         params: this.params,
@@ -496,13 +1302,110 @@ export abstract class BaseMenu<Data extends MenuData> {
         sessionData: this.sessionData
       })
     }
+
+    await this.finalizeMessages()
+
+    // Release the pages held in the global cache
+    this.pageCache.clear()
+  }
+
+  /**
+   * Get the size and hit rate of the session's page cache
+   */
+  public getPageCacheStats(): PageCacheStats {
+    return this.pageCache.getStats()
+  }
+
+  /**
+   * Delete or update every viewer's message now that the session ended
+   */
+  protected async finalizeMessages(): Promise<void> {
+    const deleteOnEnd = this.shouldAutoDelete()
+    if (!deleteOnEnd && !this.shouldUpdateOnEnd()) {
+      return
+    }
+
+    const client = CommandKit.instance?.client
+    if (!client) {
+      Logger.error("Cannot finalize messages: CommandKit client not available")
+      return
+    }
+
+    await Promise.all(
+      this.getAllUserSessions()
+        .filter(userSession => userSession.messageId)
+        .map(async userSession => {
+          try {
+            if (deleteOnEnd) {
+              await this.deleteUserMessage(client, userSession)
+            } else {
+              const page = await this.renderEndForUser(userSession.userId)
+              await this.editUserMessage(client, userSession, {
+                components: [page]
+              })
+            }
+          } catch (error) {
+            Logger.error(
+              `Failed to finalize message for user ${userSession.userId}: ${error}`
+            )
+          }
+        })
+    )
+  }
+
+  /**
+   * Build a user's final page, with every interactive component disabled
+   */
+  protected async renderEndForUser(userId: string): Promise<ContainerBuilder> {
+    const current = (await this.renderForUser(userId)).toJSON()
+    let components = current.components as APIComponentInContainer[]
+
+    if (this.definition.renderEnd) {
+      const ctx = this.createSessionContext()
+      const end = await this.definition.renderEnd(ctx)
+      const config = getPluginConfig()
+      const endComponents = transformComponentCustomId(
+        this.handleComponentOrFragment(end),
+        config.actionPrefix,
+        this.shortId,
+        new Set(this.actions.keys())
+      ) as APIComponentInContainer[]
+
+      switch (this.getEndRenderMode()) {
+        case "replace":
+          components = endComponents
+          break
+
+        case "merge":
+          components = [
+            ...components.filter(c => c.type !== ComponentType.ActionRow),
+            ...endComponents
+          ]
+          break
+
+        case "append":
+          components = [...components, ...endComponents]
+          break
+      }
+    }
+
+    const builder = new ContainerBuilder({
+      components: disableInteractiveComponents(components)
+    })
+
+    if (this.colorResolved) {
+      builder.setAccentColor(this.colorResolved)
+    }
+
+    return builder
   }
 
   // Abstract methods
   public abstract render(): Promise<ContainerBuilder>
   public abstract renderForUser(userId: string): Promise<ContainerBuilder>
+  public abstract refetch(items?: boolean): Promise<void>
   public abstract handleInteraction(
-    interaction: ButtonInteraction | AnySelectMenuInteraction,
+    interaction: MenuInteraction,
     action: string
   ): Promise<ContainerBuilder | null>
 }
@@ -0,0 +1,397 @@
+import { Logger } from "commandkit"
+import {
+  ActionRowBuilder,
+  type APIComponentInContainer,
+  ContainerBuilder
+} from "discord.js"
+import { getPluginConfig } from "../plugin"
+import type {
+  CursorPageResult,
+  CursorPaginationMenuDefinition,
+  MenuData,
+  MenuInteraction,
+  MenuItem,
+  MenuParams
+} from "../types"
+import { transformComponentCustomId } from "../utils"
+import { BaseMenu } from "./base"
+
+export class CursorPaginationMenu<
+  Data extends MenuData
+> extends BaseMenu<Data> {
+  protected override definition: CursorPaginationMenuDefinition<Data>
+
+  // Fetched pages by cursor, shared by every viewer, least recently used first
+  private pageResults = new Map<string, Promise<CursorPageResult<Data>>>()
+
+  constructor(
+    definition: CursorPaginationMenuDefinition<Data>,
+    sessionId: string,
+    params: MenuParams<Data>,
+    creatorId: string
+  ) {
+    super(definition, sessionId, params, creatorId)
+    this.definition = definition
+  }
+
+  /**
+   * Get the cursors a user moved through, the last one is their current page
+   */
+  public getUserCursorStack(userId: string): Array<string | null> {
+    const session = this.userSessions.get(userId)
+    if (!session?.cursorStack?.length) {
+      return [null]
+    }
+
+    return session.cursorStack
+  }
+
+  /**
+   * Get the cursor of a user's current page
+   */
+  public getUserCursor(userId: string): string | null {
+    const stack = this.getUserCursorStack(userId)
+    return stack[stack.length - 1]
+  }
+
+  /**
+   * Set a user's cursor stack and fire the pageChange event
+   */
+  private async setUserCursorStack(
+    userId: string,
+    stack: Array<string | null>
+  ): Promise<void> {
+    const session = this.userSessions.get(userId)
+    if (!session) {
+      return
+    }
+
+    const previousPage = this.getUserCursorStack(userId).length - 1
+    session.cursorStack = stack
+    session.currentPage = stack.length - 1
+
+    await this.emitEvent("pageChange", {
+      ...this.createEventContext(),
+      userId,
+      previousPage,
+      page: session.currentPage
+    })
+  }
+
+  private getCacheKey(cursor: string | null): string {
+    // Cursors are opaque strings, null marks the first page
+    return cursor === null ? "\0" : cursor
+  }
+
+  /**
+   * Get the page at a cursor, fetching it if needed
+   * Keeps as many fetched pages as the page cache may hold built pages
+   */
+  private async getPageResult(
+    cursor: string | null
+  ): Promise<CursorPageResult<Data>> {
+    const key = this.getCacheKey(cursor)
+
+    let request = this.pageResults.get(key)
+    if (request) {
+      this.pageResults.delete(key)
+    } else {
+      request = Promise.resolve(
+        this.definition.fetchCursor(this.params, cursor)
+      )
+
+      // Let a failed page be fetched again
+      const fetching = request
+      fetching.catch(() => {
+        if (this.pageResults.get(key) === fetching) {
+          this.pageResults.delete(key)
+        }
+      })
+    }
+    this.pageResults.set(key, request)
+
+    const capacity = this.pageCache.getCapacity()
+    if (capacity !== undefined) {
+      while (this.pageResults.size > Math.max(1, capacity)) {
+        this.pageResults.delete(this.pageResults.keys().next().value!)
+      }
+    }
+
+    return request
+  }
+
+  /**
+   * Clear fetched pages and the page cache
+   */
+  private clearPageCache(): void {
+    this.pageResults.clear()
+    this.pageCache.clear()
+  }
+
+  /**
+   * Build the page at a cursor without caching
+   */
+  private async buildPage(
+    cursor: string | null,
+    locale?: string
+  ): Promise<ContainerBuilder> {
+    const comps: APIComponentInContainer[] = []
+
+    const title = await this.renderTitle()
+    if (title) {
+      comps.push(...title)
+    }
+
+    const result = await this.getPageResult(cursor)
+    const ctx = this.createSessionContext()
+    const config = getPluginConfig()
+
+    for (let i = 0; i < result.items.length; i++) {
+      const itemComponent = await this.definition.renderItem(
+        result.items[i],
+        i,
+        ctx
+      )
+
+      // Item actions carry the index within the page, resolved per user
+      const transformedComponents = transformComponentCustomId(
+        this.handleComponentOrFragment(itemComponent),
+        config.actionPrefix,
+        this.shortId,
+        new Set(this.actions.keys()),
+        i
+      ) as APIComponentInContainer[]
+      comps.push(...transformedComponents)
+    }
+
+    const footer = await this.renderFooter()
+    if (footer) {
+      comps.push(...footer)
+    }
+
+    const navigation = this.renderNavigationControls(cursor, result, locale)
+    if (navigation) {
+      comps.push(...navigation)
+    }
+
+    const builder = new ContainerBuilder({
+      components: comps
+    })
+
+    if (this.colorResolved) {
+      builder.setAccentColor(this.colorResolved)
+    }
+
+    return builder
+  }
+
+  /**
+   * Cursors give no random access, so only first, previous and next render
+   */
+  private renderNavigationControls(
+    cursor: string | null,
+    result: CursorPageResult<Data>,
+    locale?: string
+  ) {
+    const isFirst = cursor === null
+    const canPrev = !isFirst || Boolean(result.previousCursor)
+    const canNext = Boolean(result.nextCursor)
+
+    if (!canPrev && !canNext) {
+      return null
+    }
+
+    const config = this.getNavigationConfig(locale)
+
+    const buttonNavigation = new ActionRowBuilder()
+      .addComponents(
+        this.buildNavigationButton(config, "first", isFirst),
+        this.buildNavigationButton(config, "previous", !canPrev),
+        this.buildNavigationButton(config, "next", !canNext)
+      )
+      .toJSON()
+
+    return [buttonNavigation] as APIComponentInContainer[]
+  }
+
+  /**
+   * Get the page at a cursor, using cache if available, otherwise build it
+   */
+  private async getPage(
+    cursor: string | null,
+    locale?: string
+  ): Promise<ContainerBuilder> {
+    // Navigation is rendered in the viewer's locale
+    const key = `${locale ?? ""}:${this.getCacheKey(cursor)}`
+
+    const pageCached = this.pageCache.get(key)
+    if (pageCached) {
+      return pageCached
+    }
+
+    const page = await this.buildPage(cursor, locale)
+
+    this.pageCache.set(key, page)
+
+    return page
+  }
+
+  /**
+   * Initial render - fetches and renders the first page
+   */
+  public async render(): Promise<ContainerBuilder> {
+    await this.initialize()
+
+    this.clearPageCache()
+
+    return this.getPage(null, this.getUserLocale(this.creatorId))
+  }
+
+  /**
+   * Render for a specific user (uses their cursor)
+   */
+  public async renderForUser(userId: string): Promise<ContainerBuilder> {
+    return this.getPage(this.getUserCursor(userId), this.getUserLocale(userId))
+  }
+
+  /**
+   * Navigate to the first page for a user
+   */
+  public async firstPage(userId: string): Promise<ContainerBuilder> {
+    await this.setUserCursorStack(userId, [null])
+    return this.renderForUser(userId)
+  }
+
+  /**
+   * Navigate to the next page for a user
+   */
+  public async nextPage(userId: string): Promise<ContainerBuilder | null> {
+    const stack = this.getUserCursorStack(userId)
+    const result = await this.getPageResult(stack[stack.length - 1])
+
+    if (!result.nextCursor) {
+      return null
+    }
+
+    await this.setUserCursorStack(userId, [...stack, result.nextCursor])
+    return this.renderForUser(userId)
+  }
+
+  /**
+   * Navigate to the previous page for a user
+   * Walks back the user's cursor stack, then follows previous cursors
+   */
+  public async previousPage(userId: string): Promise<ContainerBuilder | null> {
+    const stack = this.getUserCursorStack(userId)
+
+    if (stack.length > 1) {
+      const previousStack = stack.slice(0, -1)
+      await this.setUserCursorStack(userId, previousStack)
+      return this.renderForUser(userId)
+    }
+
+    const result = await this.getPageResult(stack[0])
+    if (!result.previousCursor) {
+      return null
+    }
+
+    await this.setUserCursorStack(userId, [result.previousCursor])
+    return this.renderForUser(userId)
+  }
+
+  /**
+   * Refetch data and update all users
+   */
+  public async refetch(items?: boolean): Promise<void> {
+    if (items) {
+      this.clearPageCache()
+    } else {
+      this.pageCache.clear()
+    }
+
+    await this.broadcastUpdate()
+  }
+
+  /**
+   * Get the pressed item
+   * Indexes are relative to the page the user is looking at
+   */
+  protected override async getActionTarget(
+    userId: string,
+    actionRaw: string
+  ): Promise<MenuItem<Data> | undefined> {
+    const parsed = this.parseActionId(actionRaw)
+    if (parsed?.type !== "user" || parsed.itemIndex === undefined) {
+      return undefined
+    }
+
+    const result = await this.getPageResult(this.getUserCursor(userId))
+    return result.items[parsed.itemIndex]
+  }
+
+  /**
+   * Handle button and select interactions
+   */
+  public async handleInteraction(
+    interaction: MenuInteraction,
+    actionRaw: string
+  ): Promise<ContainerBuilder | null> {
+    const userId = interaction.user.id
+
+    if (!this.canInteract(userId)) {
+      Logger.warn(
+        `User ${userId} attempted to interact with session ${this.sessionId} without permission.`
+      )
+      return null
+    }
+
+    const parsed = this.parseActionId(actionRaw)
+    if (!parsed) {
+      Logger.warn(`Failed to parse action ID: ${actionRaw}`)
+      return null
+    }
+
+    if (parsed.type === "navigation") {
+      switch (parsed.action) {
+        case "first":
+          return this.firstPage(userId)
+
+        case "previous":
+          return this.previousPage(userId)
+
+        case "next":
+          return this.nextPage(userId)
+
+        default:
+          Logger.warn(`Unknown navigation action: ${parsed.action}`)
+          return null
+      }
+    }
+
+    if (parsed.itemIndex === undefined) {
+      Logger.warn(`No item index provided for action: ${parsed.action}`)
+      return null
+    }
+
+    const item = await this.getActionTarget(userId, actionRaw)
+
+    if (!(await this.invokeAction(interaction, parsed.action, item))) {
+      return null
+    }
+
+    return this.renderForUser(userId)
+  }
+}
+
+/**
+ * Helper to create a cursor pagination menu definition
+ * Automatically sets type to "cursor"
+ */
+export function cursorPaginationMenu<Data extends MenuData>(
+  definition: Omit<CursorPaginationMenuDefinition<Data>, "type">
+): CursorPaginationMenuDefinition<Data> {
+  return {
+    ...definition,
+    type: "cursor"
+  }
+}
@@ -2,37 +2,86 @@ import { Logger } from "commandkit"
 import {
   ActionRowBuilder,
   type APIComponentInContainer,
-  ButtonBuilder,
-  type ButtonInteraction,
+  type ButtonBuilder,
   type Client,
   ContainerBuilder,
+  LabelBuilder,
+  ModalBuilder,
   StringSelectMenuBuilder,
-  type StringSelectMenuInteraction,
-  StringSelectMenuOptionBuilder
+  StringSelectMenuOptionBuilder,
+  TextInputBuilder,
+  TextInputStyle
 } from "discord.js"
-import { INTERNAL_ACTION_PREFIX, MAX_SELECT_OPTIONS } from "../constants"
+import { merge } from "lodash"
+import {
+  JUMP_PAGE_INPUT_ID,
+  MAX_ROW_BUTTONS,
+  MAX_SEARCH_QUERY_LENGTH,
+  MAX_SELECT_OPTIONS,
+  SEARCH_QUERY_INPUT_ID
+} from "../constants"
 import { getPluginConfig } from "../plugin"
 import type {
   MenuData,
+  MenuInteraction,
   MenuItem,
   MenuParams,
   MenuPluginOptions,
-  PageNavigationButtonOptions,
-  PageNavigationType,
+  PaginationControl,
   PaginationMenuDefinition
 } from "../types"
-import { transformComponentCustomId } from "../utils"
+import { markNavigationCustomIds, transformComponentCustomId } from "../utils"
 import { BaseMenu } from "./base"
 
+// The items a user is looking at, sorted and filtered by their choices
+interface PageView {
+  sort?: string
+  query?: string
+}
+
+// First (inclusive) and last (exclusive) of up to 25 options around the current
+function getOptionWindow(current: number, count: number): [number, number] {
+  let start = Math.max(0, current - Math.floor(MAX_SELECT_OPTIONS / 2))
+  const end = Math.min(count, start + MAX_SELECT_OPTIONS)
+  if (end - start < MAX_SELECT_OPTIONS) {
+    start = Math.max(0, end - MAX_SELECT_OPTIONS)
+  }
+  return [start, end]
+}
+
+// First (inclusive) and last (exclusive) page of the range holding a page
+function getPageRange(pageNumber: number, pageCount: number): [number, number] {
+  const start = pageNumber - (pageNumber % MAX_SELECT_OPTIONS)
+  return [start, Math.min(pageCount, start + MAX_SELECT_OPTIONS)]
+}
+
+// Page controls of each navigation layout
+const LAYOUT_CONTROLS: Record<"full" | "compact", PaginationControl[]> = {
+  full: ["first", "previous", "next", "last", "goto"],
+  compact: ["previous", "next"]
+}
+
 export class PaginationMenu<Data extends MenuData> extends BaseMenu<Data> {
   protected override definition: PaginationMenuDefinition<Data>
 
   private items: MenuItem<Data>[] = []
 
+  // Total item count, reported by fetchPage or the length of items
+  private total = 0
+
+  // Pages fetched on demand through fetchPage
+  private fetchedPages = new Map<number, Promise<MenuItem<Data>[]>>()
+
+  // Items matching each search query
+  private searchResults = new Map<string, Promise<MenuItem<Data>[]>>()
+
+  // Items of each sorted view
+  private sortedItems = new Map<string, Promise<MenuItem<Data>[]>>()
+
   private pageCount = 0
 
-  // Cache of fully-built pages (ContainerBuilders)
-  private pageCache = new Map<number, ContainerBuilder>()
+  // Actions run against a user's selected items
+  private bulkActionNames = new Set<string>()
 
   constructor(
     definition: PaginationMenuDefinition<Data>,
@@ -42,6 +91,221 @@ export class PaginationMenu<Data extends MenuData> extends BaseMenu<Data> {
   ) {
     super(definition, sessionId, params, creatorId)
     this.definition = definition
+
+    if (!definition.fetch && !definition.fetchPage) {
+      throw new Error(
+        `Pagination menu "${definition.name}" must define fetch or fetchPage`
+      )
+    }
+
+    const { search } = definition
+    if (search && !search.fetch && !search.matches) {
+      throw new Error(
+        `Pagination menu "${definition.name}" search must define matches or fetch`
+      )
+    }
+
+    // Items of a fetchPage menu are never all in memory to be matched
+    if (search && !search.fetch && definition.fetchPage) {
+      throw new Error(
+        `Pagination menu "${definition.name}" uses fetchPage, its search must define fetch`
+      )
+    }
+
+    const sortCount = Object.keys(definition.sorts ?? {}).length
+    if (sortCount > 0 && definition.fetchPage) {
+      throw new Error(
+        `Pagination menu "${definition.name}" uses fetchPage, it cannot define sorts`
+      )
+    }
+    if (sortCount > MAX_SELECT_OPTIONS) {
+      throw new Error(
+        `Pagination menu "${definition.name}" defines more than ${MAX_SELECT_OPTIONS} sorts`
+      )
+    }
+
+    const bulkActions = definition.selection?.bulkActions ?? {}
+    for (const [actionName, handler] of Object.entries(bulkActions)) {
+      this.registerAction(actionName, handler)
+      this.bulkActionNames.add(actionName)
+    }
+  }
+
+  /**
+   * Whether items are fetched a page at a time
+   */
+  private isPaged(): boolean {
+    return this.definition.fetchPage !== undefined
+  }
+
+  /**
+   * Load the menu's data from scratch
+   * Fetches every item, or only the first page when fetching by page
+   */
+  private async loadItems(): Promise<void> {
+    this.fetchedPages.clear()
+    this.searchResults.clear()
+    this.sortedItems.clear()
+
+    if (this.isPaged()) {
+      await this.getPageItems(0)
+    } else {
+      this.items = await this.definition.fetch!(this.params)
+      this.total = this.items.length
+    }
+
+    this.calculatePageCount()
+    this.clearPageCache()
+  }
+
+  /**
+   * Get the items on a page, fetching the page if needed
+   * Pages of a sorted or filtered view are sliced from its items
+   */
+  private async getPageItems(
+    pageNumber: number,
+    view: PageView = {}
+  ): Promise<MenuItem<Data>[]> {
+    const { perPage } = this.definition
+    const startIdx = pageNumber * perPage
+
+    if (!this.isDefaultView(view)) {
+      const viewItems = await this.getViewItems(view)
+      return viewItems.slice(startIdx, startIdx + perPage)
+    }
+
+    if (!this.isPaged()) {
+      return this.items.slice(startIdx, startIdx + perPage)
+    }
+
+    let request = this.fetchedPages.get(pageNumber)
+    if (!request) {
+      request = this.fetchPage(pageNumber)
+      this.fetchedPages.set(pageNumber, request)
+
+      // Let a failed page be fetched again
+      request.catch(() => this.fetchedPages.delete(pageNumber))
+    }
+
+    return request
+  }
+
+  private async fetchPage(pageNumber: number): Promise<MenuItem<Data>[]> {
+    const result = await this.definition.fetchPage!(this.params, {
+      page: pageNumber,
+      perPage: this.definition.perPage
+    })
+
+    // The dataset changed size, page numbers and navigation are stale
+    if (result.total !== this.total) {
+      this.total = result.total
+      this.calculatePageCount()
+      this.clearPageCache()
+    }
+
+    return result.items
+  }
+
+  /**
+   * Resolve a global item index against its page
+   */
+  private async getItemAt(
+    index: number,
+    view: PageView = {}
+  ): Promise<MenuItem<Data> | undefined> {
+    const { perPage } = this.definition
+    const pageItems = await this.getPageItems(Math.floor(index / perPage), view)
+    return pageItems[index % perPage]
+  }
+
+  /**
+   * Get the items matching a search query, fetching them if needed
+   */
+  private async getSearchResults(query: string): Promise<MenuItem<Data>[]> {
+    let request = this.searchResults.get(query)
+    if (!request) {
+      const search = this.definition.search!
+      request = Promise.resolve(
+        search.fetch
+          ? search.fetch(this.params, query)
+          : this.items.filter(item => search.matches!(item, query))
+      )
+      this.searchResults.set(query, request)
+
+      // Let a failed search be fetched again
+      request.catch(() => this.searchResults.delete(query))
+    }
+
+    return request
+  }
+
+  /**
+   * Get the items of a sorted or filtered view
+   */
+  private async getViewItems(view: PageView): Promise<MenuItem<Data>[]> {
+    const { sort, query } = view
+    const compare = sort !== undefined ? this.definition.sorts?.[sort] : null
+
+    if (!compare) {
+      return query !== undefined ? this.getSearchResults(query) : this.items
+    }
+
+    const key = this.getViewKey(view)
+
+    let request = this.sortedItems.get(key)
+    if (!request) {
+      request = (
+        query !== undefined
+          ? this.getSearchResults(query)
+          : Promise.resolve(this.items)
+      ).then(items => [...items].sort(compare))
+      this.sortedItems.set(key, request)
+
+      request.catch(() => this.sortedItems.delete(key))
+    }
+
+    return request
+  }
+
+  /**
+   * Get the number of items in a view
+   */
+  private async getViewItemCount(view: PageView = {}): Promise<number> {
+    if (this.isDefaultView(view)) {
+      return this.total
+    }
+
+    const viewItems = await this.getViewItems(view)
+    return viewItems.length
+  }
+
+  /**
+   * Get the page count of a view
+   */
+  private async getViewPageCount(view: PageView = {}): Promise<number> {
+    if (this.isDefaultView(view)) {
+      return this.pageCount
+    }
+
+    return this.countPages(await this.getViewItemCount(view))
+  }
+
+  /**
+   * Get what a user is viewing from their sort and search
+   */
+  private getUserView(userId: string): PageView {
+    return {
+      sort: this.getUserSort(userId),
+      query: this.getUserSearchQuery(userId)
+    }
+  }
+
+  private isDefaultView(view: PageView): boolean {
+    return view.sort === undefined && view.query === undefined
+  }
+
+  private getViewKey(view: PageView): string {
+    return JSON.stringify([view.sort ?? null, view.query ?? null])
   }
 
   /**
@@ -62,6 +326,63 @@ export class PaginationMenu<Data extends MenuData> extends BaseMenu<Data> {
     }
   }
 
+  /**
+   * Get the search query filtering a user's items
+   */
+  public getUserSearchQuery(userId: string): string | undefined {
+    return this.userSessions.get(userId)?.searchQuery
+  }
+
+  /**
+   * Get the name of the sort order a user chose
+   */
+  public getUserSort(userId: string): string | undefined {
+    return this.userSessions.get(userId)?.sort
+  }
+
+  /**
+   * Get the indexes of the items a user selected in their view
+   */
+  public getUserSelection(userId: string): number[] {
+    return this.userSessions.get(userId)?.selectedIndexes ?? []
+  }
+
+  private setUserSelection(userId: string, indexes: number[]): void {
+    const session = this.userSessions.get(userId)
+    if (session) {
+      session.selectedIndexes = indexes.length > 0 ? indexes : undefined
+    }
+  }
+
+  /**
+   * Resolve the items a user selected
+   * Items of a fetchPage menu are fetched page by page as needed
+   */
+  public async getUserSelectedItems(userId: string): Promise<MenuItem<Data>[]> {
+    const view = this.getUserView(userId)
+    const items = await Promise.all(
+      this.getUserSelection(userId).map(index => this.getItemAt(index, view))
+    )
+    return items.filter(item => item !== undefined)
+  }
+
+  /**
+   * Move a user to a page and fire the pageChange event if it changed
+   */
+  private async changeUserPage(userId: string, page: number): Promise<void> {
+    const previousPage = this.getUserPage(userId)
+    this.setUserPage(userId, page)
+
+    if (previousPage !== page) {
+      await this.emitEvent("pageChange", {
+        ...this.createEventContext(),
+        userId,
+        previousPage,
+        page
+      })
+    }
+  }
+
   /**
    * Get total number of pages
    */
@@ -74,7 +395,12 @@ export class PaginationMenu<Data extends MenuData> extends BaseMenu<Data> {
    */
   private async getPageForUser(userId: string): Promise<ContainerBuilder> {
     const pageNumber = this.getUserPage(userId)
-    return this.getPage(pageNumber)
+    return this.getPage(
+      pageNumber,
+      this.getUserView(userId),
+      this.getUserSelection(userId),
+      this.getUserLocale(userId)
+    )
   }
 
   /**
@@ -84,11 +410,6 @@ export class PaginationMenu<Data extends MenuData> extends BaseMenu<Data> {
     return this.getPageForUser(userId)
   }
 
-  private createNavigationActionId(action: string): string {
-    const config = getPluginConfig()
-    return `${config.actionPrefix}:${this.sessionId}:${INTERNAL_ACTION_PREFIX}${action}`
-  }
-
   /**
    * Clear the page cache
    */
@@ -100,17 +421,45 @@ export class PaginationMenu<Data extends MenuData> extends BaseMenu<Data> {
    * Calculate page count based on items
    */
   private calculatePageCount(): void {
-    this.pageCount = Math.max(
-      1,
-      Math.ceil(this.items.length / Math.max(1, this.definition.perPage))
+    this.pageCount = this.countPages(this.total)
+  }
+
+  private countPages(total: number): number {
+    return Math.max(1, Math.ceil(total / Math.max(1, this.definition.perPage)))
+  }
+
+  private getCacheKey(
+    pageNumber: number,
+    view: PageView = {},
+    selected: number[] = [],
+    locale?: string
+  ): string {
+    // Navigation is rendered in the viewer's locale
+    const key = `${pageNumber}:${this.getViewKey(view)}:${locale ?? ""}`
+    if (!this.definition.selection) {
+      return key
+    }
+
+    // Pages differ by the selected items they show and the selected count
+    const { perPage } = this.definition
+    const startIdx = pageNumber * perPage
+    const selectedOnPage = selected.filter(
+      index => index >= startIdx && index < startIdx + perPage
     )
+    return `${key}:${selected.length}:${selectedOnPage.join(",")}`
   }
 
   /**
    * Build a specific page without caching
    */
-  private async buildPage(pageNumber: number): Promise<ContainerBuilder> {
+  private async buildPage(
+    pageNumber: number,
+    view: PageView = {},
+    selected: number[] = [],
+    locale?: string
+  ): Promise<ContainerBuilder> {
     const comps: APIComponentInContainer[] = []
+    const config = this.getNavigationConfig(locale)
 
     const title = await this.renderTitle()
     if (title) {
@@ -119,13 +468,10 @@ export class PaginationMenu<Data extends MenuData> extends BaseMenu<Data> {
 
     // Render page items
     const startIdx = pageNumber * this.definition.perPage
-    const endIdx = Math.min(
-      startIdx + this.definition.perPage,
-      this.items.length
-    )
-    const pageItems = this.items.slice(startIdx, endIdx)
+    const pageItems = await this.getPageItems(pageNumber, view)
 
     const ctx = this.createSessionContext()
+    const selectedIndexes = new Set(selected)
 
     for (let i = 0; i < pageItems.length; i++) {
       const item = pageItems[i]
@@ -140,16 +486,25 @@ export class PaginationMenu<Data extends MenuData> extends BaseMenu<Data> {
 
       const transformedComponents = itemComponentHandled.map(comp => {
         // Transform with the item's global index
-        const config = getPluginConfig()
         return transformComponentCustomId(
           comp,
           config.actionPrefix,
-          this.sessionId,
+          this.shortId,
           new Set(this.actions.keys()),
           globalIndex
         )
       })
       comps.push(...transformedComponents)
+
+      if (this.definition.selection) {
+        comps.push(
+          this.renderSelectionToggle(
+            config,
+            globalIndex,
+            selectedIndexes.has(globalIndex)
+          )
+        )
+      }
     }
 
     const footer = await this.renderFooter()
@@ -158,7 +513,24 @@ export class PaginationMenu<Data extends MenuData> extends BaseMenu<Data> {
     }
 
     // Add navigation controls
-    const navigation = this.renderNavigationControls(pageNumber)
+    const itemCount = await this.getViewItemCount(view)
+    const pageCount = this.countPages(itemCount)
+    const navigation = this.definition.renderNavigation
+      ? await this.renderCustomNavigation(
+          pageNumber,
+          pageCount,
+          view,
+          selected.length,
+          itemCount
+        )
+      : this.renderNavigationControls(
+          config,
+          pageNumber,
+          pageCount,
+          view,
+          selected.length,
+          itemCount
+        )
     if (navigation) {
       comps.push(...navigation)
     }
@@ -174,69 +546,255 @@ export class PaginationMenu<Data extends MenuData> extends BaseMenu<Data> {
     return builder
   }
 
-  private renderNavigationControls(pageNumber: number) {
-    if (this.pageCount <= 1) {
-      return null
+  /**
+   * Merge the menu's navigation options over the plugin's
+   */
+  protected override getNavigationConfig(locale?: string): MenuPluginOptions {
+    const config = super.getNavigationConfig(locale)
+    const options = this.definition.navigation?.options
+    if (!options) {
+      return config
     }
 
-    const canPrev = pageNumber > 0
-    const canNext = pageNumber < this.pageCount - 1
+    return merge({}, config, { navigation: options })
+  }
 
-    const config = getPluginConfig()
+  /**
+   * Render the definition's renderNavigation in place of the built-in controls
+   */
+  private async renderCustomNavigation(
+    pageNumber: number,
+    pageCount: number,
+    view: PageView,
+    selectedCount: number,
+    itemCount: number
+  ): Promise<APIComponentInContainer[]> {
+    const navigation = await this.definition.renderNavigation!(
+      this.createSessionContext(),
+      {
+        page: pageNumber,
+        pageCount,
+        itemCount,
+        selectedCount,
+        query: view.query,
+        sort: view.sort
+      }
+    )
 
-    const buttonNavigation = new ActionRowBuilder()
-      .addComponents(
-        this.buildNavigationButton(config, "first", !canPrev),
-        this.buildNavigationButton(config, "previous", !canPrev),
-        this.buildNavigationButton(config, "next", !canNext),
-        this.buildNavigationButton(config, "last", !canNext)
-      )
-      .toJSON()
+    const actionNames = new Set(this.actions.keys())
+    return transformComponentCustomId(
+      markNavigationCustomIds(
+        this.handleComponentOrFragment(navigation),
+        actionNames
+      ),
+      getPluginConfig().actionPrefix,
+      this.shortId,
+      actionNames
+    ) as APIComponentInContainer[]
+  }
 
-    const selectMenuNavigation = new ActionRowBuilder()
-      .addComponents(this.buildNavigationSelectMenu(config, pageNumber))
-      .toJSON()
+  private renderNavigationControls(
+    config: MenuPluginOptions,
+    pageNumber: number,
+    pageCount: number,
+    view: PageView,
+    selectedCount: number,
+    itemCount: number
+  ) {
+    const rows: APIComponentInContainer[] = []
+
+    if (pageCount > 1) {
+      rows.push(...this.renderPageControls(config, pageNumber, pageCount))
+    }
+
+    // Sort and search stay available on a single page
+    if (Object.keys(this.definition.sorts ?? {}).length > 0) {
+      const sortNavigation = new ActionRowBuilder()
+        .addComponents(this.buildSortSelectMenu(config, view.sort))
+        .toJSON()
+
+      rows.push(sortNavigation as APIComponentInContainer)
+    }
+
+    if (this.definition.search) {
+      const searchNavigation = new ActionRowBuilder()
+        .addComponents(
+          this.buildNavigationButton(config, "search", false),
+          this.buildNavigationButton(
+            config,
+            "clearSearch",
+            view.query === undefined
+          )
+        )
+        .toJSON()
 
-    return [buttonNavigation, selectMenuNavigation] as APIComponentInContainer[]
+      rows.push(searchNavigation as APIComponentInContainer)
+    }
+
+    if (this.definition.selection) {
+      const countLabel = (
+        config.navigation.selectionCount.label ?? "%count%"
+      ).replace("%count%", `${selectedCount}`)
+
+      const selectionNavigation = new ActionRowBuilder()
+        .addComponents(
+          this.buildNavigationButton(config, "selectionCount", true).setLabel(
+            countLabel
+          ),
+          this.buildNavigationButton(
+            config,
+            "selectAll",
+            selectedCount >= itemCount
+          ),
+          this.buildNavigationButton(
+            config,
+            "clearSelection",
+            selectedCount === 0
+          )
+        )
+        .toJSON()
+
+      rows.push(selectionNavigation as APIComponentInContainer)
+    }
+
+    return rows.length > 0 ? rows : null
   }
 
-  private buildNavigationButton(
+  /**
+   * Render the menu's page controls, buttons on one row and goto below
+   */
+  private renderPageControls(
     config: MenuPluginOptions,
-    action: PageNavigationType,
-    disabled: boolean
-  ): ButtonBuilder {
-    const buttonOptions = config.navigation[action] as PageNavigationButtonOptions
-    const buttonId = this.createNavigationActionId(action)
-    const button = new ButtonBuilder()
-      .setCustomId(buttonId)
-      .setStyle(buttonOptions.style)
-      .setDisabled(disabled)
+    pageNumber: number,
+    pageCount: number
+  ): APIComponentInContainer[] {
+    const { navigation } = this.definition
+    const controls =
+      navigation?.controls ?? LAYOUT_CONTROLS[navigation?.layout ?? "full"]
+    const canPrev = pageNumber > 0
+    const canNext = pageNumber < pageCount - 1
+    const rows: APIComponentInContainer[] = []
 
-    if (buttonOptions.emoji) {
-      button.setEmoji(buttonOptions.emoji)
+    const buttons: ButtonBuilder[] = []
+    for (const control of controls) {
+      switch (control) {
+        case "first":
+        case "previous":
+          buttons.push(this.buildNavigationButton(config, control, !canPrev))
+          break
+
+        case "next":
+        case "last":
+          buttons.push(this.buildNavigationButton(config, control, !canNext))
+          break
+
+        case "indicator": {
+          const label = (config.navigation.indicator.label ?? "%page%")
+            .replace("%page%", `${pageNumber + 1}`)
+            .replace("%pageMax%", `${pageCount}`)
+          buttons.push(
+            this.buildNavigationButton(config, "indicator", true).setLabel(
+              label
+            )
+          )
+          break
+        }
+      }
+    }
+
+    const jump = controls.includes("goto")
+      ? (navigation?.jump ?? "window")
+      : null
+
+    // The jump button joins the page buttons while their row has room
+    const jumpButton =
+      jump === "modal"
+        ? this.buildNavigationButton(config, "jump", false)
+        : null
+    if (jumpButton && buttons.length < MAX_ROW_BUTTONS) {
+      buttons.push(jumpButton)
+    }
+
+    if (buttons.length > 0) {
+      rows.push(
+        new ActionRowBuilder()
+          .addComponents(buttons)
+          .toJSON() as APIComponentInContainer
+      )
+    }
+
+    if (jumpButton && !buttons.includes(jumpButton)) {
+      rows.push(
+        new ActionRowBuilder()
+          .addComponents(jumpButton)
+          .toJSON() as APIComponentInContainer
+      )
+    }
+
+    // Ranges are only needed once the pages no longer fit a single select
+    if (jump === "ranges" && pageCount > MAX_SELECT_OPTIONS) {
+      rows.push(
+        new ActionRowBuilder()
+          .addComponents(
+            this.buildRangeSelectMenu(config, pageNumber, pageCount)
+          )
+          .toJSON() as APIComponentInContainer
+      )
     }
-    if (buttonOptions.label) {
-      button.setLabel(buttonOptions.label)
+
+    if (jump === "window" || jump === "ranges") {
+      rows.push(
+        new ActionRowBuilder()
+          .addComponents(
+            this.buildNavigationSelectMenu(
+              config,
+              pageNumber,
+              pageCount,
+              jump === "ranges"
+            )
+          )
+          .toJSON() as APIComponentInContainer
+      )
     }
 
-    return button
+    return rows
+  }
+
+  /**
+   * Render the button selecting or deselecting an item
+   */
+  private renderSelectionToggle(
+    config: MenuPluginOptions,
+    index: number,
+    selected: boolean
+  ): APIComponentInContainer {
+    const action = selected ? "deselectItem" : "selectItem"
+    const button = this.buildNavigationButton(
+      config,
+      action,
+      false
+    ).setCustomId(this.createNavigationActionId(action, index))
+
+    return new ActionRowBuilder()
+      .addComponents(button)
+      .toJSON() as APIComponentInContainer
   }
 
-  // select options (window around current page)
+  // select options (window around current page, or the current page's range)
   private buildNavigationSelectMenu(
     config: MenuPluginOptions,
-    pageNumber: number
+    pageNumber: number,
+    pageCount: number,
+    inRange = false
   ): StringSelectMenuBuilder {
-    let start = Math.max(0, pageNumber - Math.floor(MAX_SELECT_OPTIONS / 2))
-    const end = Math.min(this.pageCount, start + MAX_SELECT_OPTIONS)
-    if (end - start < MAX_SELECT_OPTIONS) {
-      start = Math.max(0, end - MAX_SELECT_OPTIONS)
-    }
+    const [start, end] = inRange
+      ? getPageRange(pageNumber, pageCount)
+      : getOptionWindow(pageNumber, pageCount)
 
     const selectId = this.createNavigationActionId("goto")
     const selectPlaceholder = config.navigation.goto.placeholder
       .replace("%page%", `${pageNumber + 1}`)
-      .replace("%pageMax%", `${this.pageCount}`)
+      .replace("%pageMax%", `${pageCount}`)
     const select = new StringSelectMenuBuilder()
       .setCustomId(selectId)
       .setPlaceholder(selectPlaceholder)
@@ -256,32 +814,160 @@ export class PaginationMenu<Data extends MenuData> extends BaseMenu<Data> {
     return select
   }
 
+  // select options (ranges of pages, window around the current page's range)
+  private buildRangeSelectMenu(
+    config: MenuPluginOptions,
+    pageNumber: number,
+    pageCount: number
+  ): StringSelectMenuBuilder {
+    const { gotoRange } = config.navigation
+    const rangeCount = Math.ceil(pageCount / MAX_SELECT_OPTIONS)
+    const [first, last] = getOptionWindow(
+      Math.floor(pageNumber / MAX_SELECT_OPTIONS),
+      rangeCount
+    )
+
+    const [currentStart, currentEnd] = getPageRange(pageNumber, pageCount)
+    const select = new StringSelectMenuBuilder()
+      .setCustomId(this.createNavigationActionId("gotoRange"))
+      .setPlaceholder(
+        gotoRange.placeholder
+          .replace("%start%", `${currentStart + 1}`)
+          .replace("%end%", `${currentEnd}`)
+      )
+
+    for (let range = first; range < last; range++) {
+      const [start, end] = getPageRange(range * MAX_SELECT_OPTIONS, pageCount)
+      const selectOption = new StringSelectMenuOptionBuilder()
+        .setLabel(
+          gotoRange.optionLabel
+            .replace("%start%", `${start + 1}`)
+            .replace("%end%", `${end}`)
+        )
+        .setValue(`${start}`)
+
+      select.addOptions(selectOption)
+    }
+
+    return select
+  }
+
+  // select options (one per sort, the user's current sort is selected)
+  private buildSortSelectMenu(
+    config: MenuPluginOptions,
+    currentSort?: string
+  ): StringSelectMenuBuilder {
+    const select = new StringSelectMenuBuilder()
+      .setCustomId(this.createNavigationActionId("sort"))
+      .setPlaceholder(config.navigation.sort.placeholder)
+
+    for (const name of Object.keys(this.definition.sorts ?? {})) {
+      const selectOption = new StringSelectMenuOptionBuilder()
+        .setLabel(config.navigation.sort.optionLabel.replace("%sort%", name))
+        .setValue(name)
+        .setDefault(name === currentSort)
+
+      select.addOptions(selectOption)
+    }
+
+    return select
+  }
+
   /**
    * Get a page, using cache if available, otherwise build it
    */
-  private async getPage(pageNumber: number): Promise<ContainerBuilder> {
-    const pageCached = this.pageCache.get(pageNumber)
+  private async getPage(
+    pageNumber: number,
+    view: PageView = {},
+    selected: number[] = [],
+    locale?: string
+  ): Promise<ContainerBuilder> {
+    const key = this.getCacheKey(pageNumber, view, selected, locale)
+
+    const pageCached = this.pageCache.get(key)
     if (pageCached) {
       return pageCached
     }
 
-    const page = await this.buildPage(pageNumber)
+    const page = await this.buildPage(pageNumber, view, selected, locale)
 
-    this.pageCache.set(pageNumber, page)
+    this.pageCache.set(key, page)
 
     return page
   }
 
+  private async buildJumpModal(userId: string): Promise<ModalBuilder> {
+    const { jump } = this.getNavigationConfig(
+      this.getUserLocale(userId)
+    ).navigation
+    const pageCount = await this.getViewPageCount(this.getUserView(userId))
+
+    const input = new TextInputBuilder()
+      .setCustomId(JUMP_PAGE_INPUT_ID)
+      .setStyle(TextInputStyle.Short)
+      .setMaxLength(`${pageCount}`.length)
+
+    if (jump.inputPlaceholder) {
+      input.setPlaceholder(
+        jump.inputPlaceholder.replace("%pageMax%", `${pageCount}`)
+      )
+    }
+
+    return new ModalBuilder()
+      .setCustomId(this.createNavigationActionId("jump"))
+      .setTitle(jump.modalTitle)
+      .addLabelComponents(
+        new LabelBuilder()
+          .setLabel(jump.inputLabel)
+          .setTextInputComponent(input)
+      )
+  }
+
+  private buildSearchModal(userId: string): ModalBuilder {
+    const { search } = this.getNavigationConfig(
+      this.getUserLocale(userId)
+    ).navigation
+
+    const input = new TextInputBuilder()
+      .setCustomId(SEARCH_QUERY_INPUT_ID)
+      .setStyle(TextInputStyle.Short)
+      .setRequired(false)
+      .setMaxLength(MAX_SEARCH_QUERY_LENGTH)
+
+    // Prefill with the current query so it can be refined
+    const query = this.getUserSearchQuery(userId)
+    if (query) {
+      input.setValue(query)
+    }
+    if (search.inputPlaceholder) {
+      input.setPlaceholder(search.inputPlaceholder)
+    }
+
+    return new ModalBuilder()
+      .setCustomId(this.createNavigationActionId("search"))
+      .setTitle(search.modalTitle)
+      .addLabelComponents(
+        new LabelBuilder()
+          .setLabel(search.inputLabel)
+          .setTextInputComponent(input)
+      )
+  }
+
   /**
-   * Preload all pages into cache
+   * Preload all pages into cache, in a locale
+   * Stops at the cache's capacity, later pages would evict the first ones
    */
-  private async preloadAllPages(): Promise<void> {
+  private async preloadAllPages(locale?: string): Promise<void> {
     const promises: Promise<void>[] = []
+    const count = Math.min(
+      this.pageCount,
+      this.pageCache.getCapacity() ?? this.pageCount
+    )
 
-    for (let i = 0; i < this.pageCount; i++) {
+    for (let i = 0; i < count; i++) {
       promises.push(
-        this.buildPage(i).then(page => {
-          this.pageCache.set(i, page)
+        this.buildPage(i, {}, [], locale).then(page => {
+          this.pageCache.set(this.getCacheKey(i, {}, [], locale), page)
         })
       )
     }
@@ -295,16 +981,17 @@ export class PaginationMenu<Data extends MenuData> extends BaseMenu<Data> {
   public async render(): Promise<ContainerBuilder> {
     await this.initialize()
 
-    this.items = await this.definition.fetch(this.params)
-    this.calculatePageCount()
-    this.clearPageCache()
+    await this.loadItems()
 
-    if (this.definition.preloadAll) {
-      await this.preloadAllPages()
+    // Rendered for the creator, in their locale
+    const locale = this.getUserLocale(this.creatorId)
+
+    if (this.definition.preloadAll && !this.isPaged()) {
+      await this.preloadAllPages(locale)
     }
 
     // Return page 0 for initial render
-    return this.getPage(0)
+    return this.getPage(0, {}, [], locale)
   }
 
   /**
@@ -314,12 +1001,15 @@ export class PaginationMenu<Data extends MenuData> extends BaseMenu<Data> {
     userId: string,
     pageNumber: number
   ): Promise<ContainerBuilder> {
-    if (pageNumber < 0 || pageNumber >= this.pageCount) {
+    const view = this.getUserView(userId)
+    const pageCount = await this.getViewPageCount(view)
+
+    if (pageNumber < 0 || pageNumber >= pageCount) {
       throw new Error(`Invalid page number: ${pageNumber}`)
     }
 
-    this.setUserPage(userId, pageNumber)
-    return this.getPage(pageNumber)
+    await this.changeUserPage(userId, pageNumber)
+    return this.getPageForUser(userId)
   }
 
   /**
@@ -327,13 +1017,14 @@ export class PaginationMenu<Data extends MenuData> extends BaseMenu<Data> {
    */
   public async nextPage(userId: string): Promise<ContainerBuilder | null> {
     const currentPage = this.getUserPage(userId)
+    const view = this.getUserView(userId)
 
-    if (currentPage >= this.pageCount - 1) {
+    if (currentPage >= (await this.getViewPageCount(view)) - 1) {
       return null
     }
 
-    this.setUserPage(userId, currentPage + 1)
-    return this.getPage(currentPage + 1)
+    await this.changeUserPage(userId, currentPage + 1)
+    return this.getPageForUser(userId)
   }
 
   /**
@@ -346,25 +1037,112 @@ export class PaginationMenu<Data extends MenuData> extends BaseMenu<Data> {
       return null
     }
 
-    this.setUserPage(userId, currentPage - 1)
-    return this.getPage(currentPage - 1)
+    await this.changeUserPage(userId, currentPage - 1)
+    return this.getPageForUser(userId)
   }
 
   /**
    * Navigate to first page for a user
    */
   public async firstPage(userId: string): Promise<ContainerBuilder> {
-    this.setUserPage(userId, 0)
-    return this.getPage(0)
+    await this.changeUserPage(userId, 0)
+    return this.getPageForUser(userId)
   }
 
   /**
    * Navigate to last page for a user
    */
   public async lastPage(userId: string): Promise<ContainerBuilder> {
-    const lastPage = this.pageCount - 1
-    this.setUserPage(userId, lastPage)
-    return this.getPage(lastPage)
+    const view = this.getUserView(userId)
+    const lastPage = (await this.getViewPageCount(view)) - 1
+    await this.changeUserPage(userId, lastPage)
+    return this.getPageForUser(userId)
+  }
+
+  /**
+   * Filter a user's items by a search query, from the first page
+   * An empty query clears the search
+   */
+  public async search(
+    userId: string,
+    query?: string
+  ): Promise<ContainerBuilder> {
+    const session = this.userSessions.get(userId)
+    if (session) {
+      session.searchQuery = query || undefined
+      session.selectedIndexes = undefined
+    }
+
+    return this.firstPage(userId)
+  }
+
+  /**
+   * Sort a user's items by a named sort order, from the first page
+   */
+  public async sort(userId: string, sort: string): Promise<ContainerBuilder> {
+    if (!this.definition.sorts?.[sort]) {
+      throw new Error(`Unknown sort: ${sort}`)
+    }
+
+    const session = this.userSessions.get(userId)
+    if (session) {
+      session.sort = sort
+      session.selectedIndexes = undefined
+    }
+
+    return this.firstPage(userId)
+  }
+
+  /**
+   * Add an item of a user's view to their selection
+   */
+  public async selectItem(
+    userId: string,
+    index: number
+  ): Promise<ContainerBuilder> {
+    const selection = this.getUserSelection(userId)
+    if (!selection.includes(index)) {
+      this.setUserSelection(userId, [...selection, index])
+    }
+
+    return this.getPageForUser(userId)
+  }
+
+  /**
+   * Remove an item of a user's view from their selection
+   */
+  public async deselectItem(
+    userId: string,
+    index: number
+  ): Promise<ContainerBuilder> {
+    const selection = this.getUserSelection(userId)
+    this.setUserSelection(
+      userId,
+      selection.filter(i => i !== index)
+    )
+
+    return this.getPageForUser(userId)
+  }
+
+  /**
+   * Select every item of a user's view, across all pages
+   */
+  public async selectAll(userId: string): Promise<ContainerBuilder> {
+    const itemCount = await this.getViewItemCount(this.getUserView(userId))
+    this.setUserSelection(
+      userId,
+      Array.from({ length: itemCount }, (_, i) => i)
+    )
+
+    return this.getPageForUser(userId)
+  }
+
+  /**
+   * Clear a user's selection
+   */
+  public async clearSelection(userId: string): Promise<ContainerBuilder> {
+    this.setUserSelection(userId, [])
+    return this.getPageForUser(userId)
   }
 
   /**
@@ -373,20 +1151,33 @@ export class PaginationMenu<Data extends MenuData> extends BaseMenu<Data> {
   public async refetch(items?: boolean): Promise<void> {
     // Refetch items if requested
     if (items) {
-      this.items = await this.definition.fetch(this.params)
-      this.calculatePageCount()
-      this.clearPageCache()
+      await this.loadItems()
     }
 
-    // Ensure all users' pages are valid
+    // Ensure all users' pages are valid for what they are viewing
     for (const userSession of this.getAllUserSessions()) {
-      if (userSession.currentPage >= this.pageCount) {
-        this.setUserPage(userSession.userId, Math.max(0, this.pageCount - 1))
+      // Selected indexes may point to other items after a refetch
+      if (items) {
+        userSession.selectedIndexes = undefined
+      }
+
+      const pageCount = await this.getViewPageCount({
+        sort: userSession.sort,
+        query: userSession.searchQuery
+      })
+      if (userSession.currentPage >= pageCount) {
+        this.setUserPage(userSession.userId, pageCount - 1)
       }
     }
 
-    if (this.definition.preloadAll) {
-      await this.preloadAllPages()
+    // Preload in every viewer's locale, the pages they will read
+    if (this.definition.preloadAll && !this.isPaged()) {
+      const locales = new Set(
+        this.getAllUserSessions().map(userSession => userSession.locale)
+      )
+      for (const locale of locales) {
+        await this.preloadAllPages(locale)
+      }
     }
 
     // Broadcast update to all users if client is provided
@@ -394,10 +1185,10 @@ export class PaginationMenu<Data extends MenuData> extends BaseMenu<Data> {
   }
 
   /**
-   * Handle button interactions
+   * Handle button, select and search modal interactions
    */
   public async handleInteraction(
-    interaction: ButtonInteraction | StringSelectMenuInteraction,
+    interaction: MenuInteraction,
     actionRaw: string
   ): Promise<ContainerBuilder | null> {
     const userId = interaction.user.id
@@ -439,44 +1230,153 @@ export class PaginationMenu<Data extends MenuData> extends BaseMenu<Data> {
           }
           return null
 
+        case "jump": {
+          // The button opens the modal, submitting it jumps to the page
+          if (!interaction.isModalSubmit()) {
+            await interaction.showModal(await this.buildJumpModal(userId))
+            return null
+          }
+
+          const pageIndex =
+            parseInt(
+              interaction.fields.getTextInputValue(JUMP_PAGE_INPUT_ID),
+              10
+            ) - 1
+          const pageCount = await this.getViewPageCount(
+            this.getUserView(userId)
+          )
+          if (isNaN(pageIndex) || pageIndex < 0 || pageIndex >= pageCount) {
+            return this.getPageForUser(userId)
+          }
+          return this.goToPage(userId, pageIndex)
+        }
+
+        case "gotoRange":
+          // Jumps to the first page of the range, its pages fill the goto select
+          if (interaction.isStringSelectMenu()) {
+            const pageIndex = parseInt(interaction.values[0], 10)
+            if (!isNaN(pageIndex)) {
+              return this.goToPage(userId, pageIndex)
+            }
+          }
+          return null
+
         case "indicator":
           // Page indicator is disabled, no action
           return null
 
+        case "search":
+          // The button opens the modal, submitting it applies the query
+          if (!this.definition.search) {
+            return null
+          }
+          if (!interaction.isModalSubmit()) {
+            await interaction.showModal(this.buildSearchModal(userId))
+            return null
+          }
+          return this.search(
+            userId,
+            interaction.fields.getTextInputValue(SEARCH_QUERY_INPUT_ID).trim()
+          )
+
+        case "clearSearch":
+          return this.search(userId)
+
+        case "selectItem":
+        case "deselectItem":
+          if (!this.definition.selection || parsed.itemIndex === undefined) {
+            return null
+          }
+          return parsed.action === "selectItem"
+            ? this.selectItem(userId, parsed.itemIndex)
+            : this.deselectItem(userId, parsed.itemIndex)
+
+        case "selectAll":
+          return this.definition.selection ? this.selectAll(userId) : null
+
+        case "clearSelection":
+          return this.clearSelection(userId)
+
+        case "selectionCount":
+          // Selection count is disabled, no action
+          return null
+
+        case "sort":
+          if (interaction.isStringSelectMenu()) {
+            const sort = interaction.values[0]
+            if (this.definition.sorts?.[sort]) {
+              return this.sort(userId, sort)
+            }
+          }
+          return null
+
         default:
           Logger.warn(`Unknown navigation action: ${parsed.action}`)
           return null
       }
     }
 
-    // User-defined action
-    const actionHandler = this.actions.get(parsed.action)
-    if (!actionHandler) {
-      Logger.warn(
-        `Unknown action: ${parsed.action} for ${this.definition.name}`
-      )
-      return null
+    // Bulk actions run against the user's selection, not a single item
+    if (this.bulkActionNames.has(parsed.action)) {
+      const items = (await this.getActionTarget(
+        userId,
+        actionRaw
+      )) as MenuItem<Data>[]
+
+      if (
+        !(await this.invokeAction(interaction, parsed.action, undefined, items))
+      ) {
+        return null
+      }
+
+      if (this.definition.selection?.clearAfterAction ?? true) {
+        this.setUserSelection(userId, [])
+      }
+
+      return this.getPageForUser(userId)
     }
 
+    // User-defined action
     if (parsed.itemIndex === undefined) {
       Logger.warn(`No item index provided for action: ${parsed.action}`)
       return null
     }
 
-    await actionHandler({
-      interaction,
-      params: this.params,
-      sessionData: this.sessionData,
-      sessionId: this.sessionId,
-      item: this.items[parsed.itemIndex],
-      userId: interaction.user.id
-    })
+    const item = await this.getActionTarget(userId, actionRaw)
+
+    if (!(await this.invokeAction(interaction, parsed.action, item))) {
+      return null
+    }
 
     return this.getPageForUser(userId)
   }
 
+  /**
+   * Get the user's selection for bulk actions, otherwise the pressed item
+   * Indexes are relative to the items the user is viewing
+   */
+  protected override async getActionTarget(
+    userId: string,
+    actionRaw: string
+  ): Promise<MenuItem<Data>[] | MenuItem<Data> | undefined> {
+    const parsed = this.parseActionId(actionRaw)
+    if (!parsed || parsed.type === "navigation") {
+      return undefined
+    }
+
+    if (this.bulkActionNames.has(parsed.action)) {
+      return this.getUserSelectedItems(userId)
+    }
+
+    return parsed.itemIndex === undefined
+      ? undefined
+      : this.getItemAt(parsed.itemIndex, this.getUserView(userId))
+  }
+
   /**
    * Get items for a specific user's current page
+   * Slices the items fetched with fetch, without the user's search or sort,
+   * see fetchCurrentPageItemsForUser
    */
   public getCurrentPageItemsForUser(userId: string): MenuItem<Data>[] {
     const currentPage = this.getUserPage(userId)
@@ -488,6 +1388,16 @@ export class PaginationMenu<Data extends MenuData> extends BaseMenu<Data> {
     return this.items.slice(startIdx, endIdx)
   }
 
+  /**
+   * Get the items a user sees on their current page
+   * Applies their search and sort, and fetches the page with fetchPage if needed
+   */
+  public async fetchCurrentPageItemsForUser(
+    userId: string
+  ): Promise<MenuItem<Data>[]> {
+    return this.getPageItems(this.getUserPage(userId), this.getUserView(userId))
+  }
+
 }
 
 /**
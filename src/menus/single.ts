@@ -1,27 +1,179 @@
+import { Logger } from "commandkit"
+import { type APIComponentInContainer, ContainerBuilder } from "discord.js"
+import { getPluginConfig } from "../plugin"
 import type {
-  ButtonInteraction,
-  ContainerBuilder,
-  StringSelectMenuInteraction
-} from "discord.js"
-import type { MenuData, SinglePageMenuDefinition } from "../types"
+  MenuData,
+  MenuInteraction,
+  MenuItem,
+  MenuParams,
+  SinglePageMenuDefinition
+} from "../types"
+import { transformComponentCustomId } from "../utils"
 import { BaseMenu } from "./base"
 
 export class SinglePageMenu<Data extends MenuData> extends BaseMenu<Data> {
-  public render(): Promise<ContainerBuilder> {
-    throw new Error("Method not implemented.")
+  protected override definition: SinglePageMenuDefinition<Data>
+
+  private item: MenuItem<Data> | undefined
+
+  constructor(
+    definition: SinglePageMenuDefinition<Data>,
+    sessionId: string,
+    params: MenuParams<Data>,
+    creatorId: string
+  ) {
+    super(definition, sessionId, params, creatorId)
+    this.definition = definition
+  }
+
+  /**
+   * Get the fetched item
+   */
+  public getItem(): MenuItem<Data> | undefined {
+    return this.item
+  }
+
+  /**
+   * Build the page without caching
+   */
+  private async buildPage(): Promise<ContainerBuilder> {
+    const comps: APIComponentInContainer[] = []
+
+    const title = await this.renderTitle()
+    if (title) {
+      comps.push(...title)
+    }
+
+    const ctx = this.createSessionContext()
+    const body = await this.definition.renderBody(this.item, ctx)
+    const bodyHandled = this.handleComponentOrFragment(body)
+
+    const config = getPluginConfig()
+    const transformedComponents = transformComponentCustomId(
+      bodyHandled,
+      config.actionPrefix,
+      this.shortId,
+      new Set(this.actions.keys())
+    ) as APIComponentInContainer[]
+    comps.push(...transformedComponents)
+
+    const footer = await this.renderFooter()
+    if (footer) {
+      comps.push(...footer)
+    }
+
+    const builder = new ContainerBuilder({
+      components: comps
+    })
+
+    if (this.colorResolved) {
+      builder.setAccentColor(this.colorResolved)
+    }
+
+    return builder
   }
 
-  renderForUser(userId: string): Promise<ContainerBuilder> {
-    throw new Error("Method not implemented.")
+  /**
+   * Get the page, using cache if available, otherwise build it
+   */
+  private async getPage(): Promise<ContainerBuilder> {
+    // Every viewer sees the one page
+    const pageCached = this.pageCache.get("page")
+    if (pageCached) {
+      return pageCached
+    }
+
+    const page = await this.buildPage()
+
+    this.pageCache.set("page", page)
+
+    return page
   }
 
-  public handleInteraction(
-    interaction: ButtonInteraction | StringSelectMenuInteraction,
-    action: string
+  /**
+   * Initial render - fetches the item and renders the page
+   */
+  public async render(): Promise<ContainerBuilder> {
+    await this.initialize()
+
+    this.item = await this.definition.fetch(this.params)
+    this.pageCache.clear()
+
+    return this.getPage()
+  }
+
+  /**
+   * Render for a specific user (every viewer sees the same page)
+   */
+  public async renderForUser(_userId: string): Promise<ContainerBuilder> {
+    return this.getPage()
+  }
+
+  /**
+   * Refetch data and update all users
+   */
+  public async refetch(item?: boolean): Promise<void> {
+    if (item) {
+      this.item = await this.definition.fetch(this.params)
+    }
+
+    // Session data may have changed even if the item didn't
+    this.pageCache.clear()
+
+    await this.broadcastUpdate()
+  }
+
+  /**
+   * Get the menu's item, every action runs against it
+   */
+  protected override async getActionTarget(): Promise<
+    MenuItem<Data> | undefined
+  > {
+    return this.item
+  }
+
+  /**
+   * Handle button and select interactions
+   */
+  public async handleInteraction(
+    interaction: MenuInteraction,
+    actionRaw: string
   ): Promise<ContainerBuilder | null> {
-    throw new Error("Method not implemented.")
+    const userId = interaction.user.id
+
+    if (!this.canInteract(userId)) {
+      Logger.warn(
+        `User ${userId} attempted to interact with session ${this.sessionId} without permission.`
+      )
+      return null
+    }
+
+    const parsed = this.parseActionId(actionRaw)
+    if (!parsed) {
+      Logger.warn(`Failed to parse action ID: ${actionRaw}`)
+      return null
+    }
+
+    if (parsed.type === "navigation") {
+      // Single page menus render no navigation controls
+      Logger.warn(`Unknown navigation action: ${parsed.action}`)
+      return null
+    }
+
+    if (!(await this.invokeAction(interaction, parsed.action, this.item))) {
+      return null
+    }
+
+    // The handler may have mutated session data, so rebuild
+    this.pageCache.clear()
+
+    // Other viewers share the same page, keep them in sync
+    if (this.getMode() === "shared") {
+      await this.broadcastUpdate(userId)
+    }
+
+    return this.getPage()
   }
-  // ... implementation
 }
 
 /**
@@ -0,0 +1,553 @@
+import { Logger } from "commandkit"
+import {
+  ActionRowBuilder,
+  type APIComponentInContainer,
+  ButtonBuilder,
+  ContainerBuilder
+} from "discord.js"
+import { MAX_ROW_BUTTONS, MAX_TABS } from "../constants"
+import type {
+  MenuData,
+  MenuInteraction,
+  MenuItem,
+  MenuParams,
+  MenuPluginOptions,
+  TabsMenuDefinition
+} from "../types"
+import { transformComponentCustomId } from "../utils"
+import { BaseMenu } from "./base"
+
+export class TabsMenu<Data extends MenuData> extends BaseMenu<Data> {
+  protected override definition: TabsMenuDefinition<Data>
+
+  // Tab names in the order their buttons render
+  private tabNames: string[]
+
+  // Fetched data by tab, an item for single tabs and items for paginated tabs
+  private tabData = new Map<
+    string,
+    Promise<MenuItem<Data> | MenuItem<Data>[]>
+  >()
+
+  constructor(
+    definition: TabsMenuDefinition<Data>,
+    sessionId: string,
+    params: MenuParams<Data>,
+    creatorId: string
+  ) {
+    super(definition, sessionId, params, creatorId)
+    this.definition = definition
+    this.tabNames = Object.keys(definition.tabs)
+
+    if (this.tabNames.length === 0 || this.tabNames.length > MAX_TABS) {
+      throw new Error(
+        `Tabs menu "${definition.name}" must define between 1 and ${MAX_TABS} tabs`
+      )
+    }
+
+    if (definition.defaultTab && !definition.tabs[definition.defaultTab]) {
+      throw new Error(
+        `Tabs menu "${definition.name}" has no tab named "${definition.defaultTab}"`
+      )
+    }
+  }
+
+  private getDefaultTab(): string {
+    return this.definition.defaultTab ?? this.tabNames[0]
+  }
+
+  /**
+   * Get the tab a user is viewing
+   */
+  public getUserTab(userId: string): string {
+    const tab = this.userSessions.get(userId)?.activeTab
+
+    // A restored session may name a tab the definition no longer has
+    return tab && this.definition.tabs[tab] ? tab : this.getDefaultTab()
+  }
+
+  /**
+   * Get a user's page in a tab, their current tab by default
+   */
+  public getUserTabPage(userId: string, tab?: string): number {
+    const session = this.userSessions.get(userId)
+    return session?.tabPages?.[tab ?? this.getUserTab(userId)] ?? 0
+  }
+
+  /**
+   * Move a user to a tab and page
+   * Fires the pageChange event when the page changed within the same tab
+   */
+  private async changeUserPosition(
+    userId: string,
+    tab: string,
+    page: number
+  ): Promise<void> {
+    const session = this.userSessions.get(userId)
+    if (!session) {
+      return
+    }
+
+    const previousTab = this.getUserTab(userId)
+    const previousPage = this.getUserTabPage(userId, tab)
+
+    session.activeTab = tab
+    session.tabPages = { ...session.tabPages, [tab]: page }
+    session.currentPage = page
+
+    if (previousTab === tab && previousPage !== page) {
+      await this.emitEvent("pageChange", {
+        ...this.createEventContext(),
+        userId,
+        previousPage,
+        page
+      })
+    }
+  }
+
+  /**
+   * Get a tab's data, fetching it the first time the tab is opened
+   */
+  private async getTabData(
+    tab: string
+  ): Promise<MenuItem<Data> | MenuItem<Data>[]> {
+    let request = this.tabData.get(tab)
+    if (!request) {
+      request = Promise.resolve(this.definition.tabs[tab].fetch(this.params))
+      this.tabData.set(tab, request)
+
+      // Let a failed tab be fetched again
+      request.catch(() => this.tabData.delete(tab))
+    }
+
+    return request
+  }
+
+  /**
+   * Get the number of pages in a tab, single tabs have one
+   */
+  private async getTabPageCount(tab: string): Promise<number> {
+    const tabDefinition = this.definition.tabs[tab]
+    if (tabDefinition.type === "single") {
+      return 1
+    }
+
+    const items = (await this.getTabData(tab)) as MenuItem<Data>[]
+    return Math.max(
+      1,
+      Math.ceil(items.length / Math.max(1, tabDefinition.perPage))
+    )
+  }
+
+  /**
+   * Get a user's tab and page, with the page clamped to the tab's pages
+   */
+  private async getUserPosition(
+    userId: string
+  ): Promise<{ tab: string; page: number }> {
+    const tab = this.getUserTab(userId)
+    const pageCount = await this.getTabPageCount(tab)
+    const page = Math.min(this.getUserTabPage(userId, tab), pageCount - 1)
+
+    return { tab, page }
+  }
+
+  /**
+   * Build a tab's page without caching
+   */
+  private async buildPage(
+    tab: string,
+    pageNumber: number,
+    locale?: string
+  ): Promise<ContainerBuilder> {
+    const comps: APIComponentInContainer[] = []
+
+    const title = await this.renderTitle()
+    if (title) {
+      comps.push(...title)
+    }
+
+    const config = this.getNavigationConfig(locale)
+    comps.push(...this.renderTabControls(config, tab))
+
+    const tabDefinition = this.definition.tabs[tab]
+    const ctx = this.createSessionContext()
+    const actionNames = new Set(this.actions.keys())
+
+    if (tabDefinition.type === "single") {
+      const item = await this.getTabData(tab)
+      const body = await tabDefinition.renderBody(item, ctx)
+
+      const transformedComponents = transformComponentCustomId(
+        this.handleComponentOrFragment(body),
+        config.actionPrefix,
+        this.shortId,
+        actionNames
+      ) as APIComponentInContainer[]
+      comps.push(...transformedComponents)
+    } else {
+      const items = (await this.getTabData(tab)) as MenuItem<Data>[]
+      const startIdx = pageNumber * tabDefinition.perPage
+      const pageItems = items.slice(startIdx, startIdx + tabDefinition.perPage)
+
+      for (let i = 0; i < pageItems.length; i++) {
+        const globalIndex = startIdx + i
+        const itemComponent = await tabDefinition.renderItem(
+          pageItems[i],
+          globalIndex,
+          pageNumber,
+          ctx
+        )
+
+        // Transform with the item's index within the tab
+        const transformedComponents = transformComponentCustomId(
+          this.handleComponentOrFragment(itemComponent),
+          config.actionPrefix,
+          this.shortId,
+          actionNames,
+          globalIndex
+        ) as APIComponentInContainer[]
+        comps.push(...transformedComponents)
+      }
+    }
+
+    const footer = await this.renderFooter()
+    if (footer) {
+      comps.push(...footer)
+    }
+
+    const pageCount = await this.getTabPageCount(tab)
+    const navigation = this.renderNavigationControls(
+      config,
+      pageNumber,
+      pageCount
+    )
+    if (navigation) {
+      comps.push(...navigation)
+    }
+
+    const builder = new ContainerBuilder({
+      components: comps
+    })
+
+    if (this.colorResolved) {
+      builder.setAccentColor(this.colorResolved)
+    }
+
+    return builder
+  }
+
+  /**
+   * Render the tab buttons, the active tab is highlighted
+   */
+  private renderTabControls(
+    config: MenuPluginOptions,
+    activeTab: string
+  ): APIComponentInContainer[] {
+    const rows: APIComponentInContainer[] = []
+
+    for (let i = 0; i < this.tabNames.length; i += MAX_ROW_BUTTONS) {
+      const buttons = this.tabNames
+        .slice(i, i + MAX_ROW_BUTTONS)
+        .map((tab, j) => this.buildTabButton(config, tab, i + j, activeTab))
+
+      rows.push(
+        new ActionRowBuilder()
+          .addComponents(buttons)
+          .toJSON() as APIComponentInContainer
+      )
+    }
+
+    return rows
+  }
+
+  private buildTabButton(
+    config: MenuPluginOptions,
+    tab: string,
+    tabIndex: number,
+    activeTab: string
+  ): ButtonBuilder {
+    const { label, emoji } = this.definition.tabs[tab]
+    const style =
+      tab === activeTab
+        ? config.navigation.tab.activeStyle
+        : config.navigation.tab.style
+
+    const button = new ButtonBuilder()
+      .setCustomId(this.createNavigationActionId("tab", tabIndex))
+      .setStyle(style)
+
+    if (emoji) {
+      button.setEmoji(emoji)
+    }
+    // Buttons need a label or emoji, fall back to the tab's name
+    if (label || !emoji) {
+      button.setLabel(label ?? tab)
+    }
+
+    return button
+  }
+
+  private renderNavigationControls(
+    config: MenuPluginOptions,
+    pageNumber: number,
+    pageCount: number
+  ) {
+    if (pageCount <= 1) {
+      return null
+    }
+
+    const canPrev = pageNumber > 0
+    const canNext = pageNumber < pageCount - 1
+
+    const buttonNavigation = new ActionRowBuilder()
+      .addComponents(
+        this.buildNavigationButton(config, "first", !canPrev),
+        this.buildNavigationButton(config, "previous", !canPrev),
+        this.buildNavigationButton(config, "next", !canNext),
+        this.buildNavigationButton(config, "last", !canNext)
+      )
+      .toJSON()
+
+    return [buttonNavigation] as APIComponentInContainer[]
+  }
+
+  /**
+   * Get a tab's page, using cache if available, otherwise build it
+   */
+  private async getPage(
+    tab: string,
+    pageNumber: number,
+    locale?: string
+  ): Promise<ContainerBuilder> {
+    const key = `${pageNumber}:${locale ?? ""}:${tab}`
+
+    const pageCached = this.pageCache.get(key)
+    if (pageCached) {
+      return pageCached
+    }
+
+    const page = await this.buildPage(tab, pageNumber, locale)
+
+    this.pageCache.set(key, page)
+
+    return page
+  }
+
+  /**
+   * Initial render - renders the first page of the default tab
+   */
+  public async render(): Promise<ContainerBuilder> {
+    await this.initialize()
+
+    this.tabData.clear()
+    this.pageCache.clear()
+
+    return this.getPage(
+      this.getDefaultTab(),
+      0,
+      this.getUserLocale(this.creatorId)
+    )
+  }
+
+  /**
+   * Render for a specific user (uses their tab and page)
+   */
+  public async renderForUser(userId: string): Promise<ContainerBuilder> {
+    const { tab, page } = await this.getUserPosition(userId)
+    return this.getPage(tab, page, this.getUserLocale(userId))
+  }
+
+  /**
+   * Switch a user to a tab, on the page they were last on in it
+   */
+  public async switchTab(
+    userId: string,
+    tab: string
+  ): Promise<ContainerBuilder> {
+    if (!this.definition.tabs[tab]) {
+      throw new Error(`Unknown tab: ${tab}`)
+    }
+
+    await this.changeUserPosition(userId, tab, this.getUserTabPage(userId, tab))
+    return this.renderForUser(userId)
+  }
+
+  /**
+   * Navigate to a specific page of a user's tab
+   */
+  public async goToPage(
+    userId: string,
+    pageNumber: number
+  ): Promise<ContainerBuilder> {
+    const tab = this.getUserTab(userId)
+    const pageCount = await this.getTabPageCount(tab)
+
+    if (pageNumber < 0 || pageNumber >= pageCount) {
+      throw new Error(`Invalid page number: ${pageNumber}`)
+    }
+
+    await this.changeUserPosition(userId, tab, pageNumber)
+    return this.getPage(tab, pageNumber, this.getUserLocale(userId))
+  }
+
+  /**
+   * Navigate to next page of a user's tab
+   */
+  public async nextPage(userId: string): Promise<ContainerBuilder | null> {
+    const { tab, page } = await this.getUserPosition(userId)
+
+    if (page >= (await this.getTabPageCount(tab)) - 1) {
+      return null
+    }
+
+    return this.goToPage(userId, page + 1)
+  }
+
+  /**
+   * Navigate to previous page of a user's tab
+   */
+  public async previousPage(userId: string): Promise<ContainerBuilder | null> {
+    const { page } = await this.getUserPosition(userId)
+
+    if (page <= 0) {
+      return null
+    }
+
+    return this.goToPage(userId, page - 1)
+  }
+
+  /**
+   * Navigate to first page of a user's tab
+   */
+  public async firstPage(userId: string): Promise<ContainerBuilder> {
+    return this.goToPage(userId, 0)
+  }
+
+  /**
+   * Navigate to last page of a user's tab
+   */
+  public async lastPage(userId: string): Promise<ContainerBuilder> {
+    const pageCount = await this.getTabPageCount(this.getUserTab(userId))
+    return this.goToPage(userId, pageCount - 1)
+  }
+
+  /**
+   * Refetch data and update all users
+   * Tabs are fetched again when next rendered
+   */
+  public async refetch(items?: boolean): Promise<void> {
+    if (items) {
+      this.tabData.clear()
+    }
+
+    this.pageCache.clear()
+
+    await this.broadcastUpdate()
+  }
+
+  /**
+   * Get the pressed item
+   * Items are resolved against the tab the user is viewing
+   */
+  protected override async getActionTarget(
+    userId: string,
+    actionRaw: string
+  ): Promise<MenuItem<Data> | undefined> {
+    const parsed = this.parseActionId(actionRaw)
+    if (parsed?.type !== "user") {
+      return undefined
+    }
+
+    const tab = this.getUserTab(userId)
+    const tabData = await this.getTabData(tab)
+
+    if (this.definition.tabs[tab].type === "single") {
+      return tabData as MenuItem<Data>
+    }
+    return parsed.itemIndex === undefined
+      ? undefined
+      : (tabData as MenuItem<Data>[])[parsed.itemIndex]
+  }
+
+  /**
+   * Handle button and select interactions
+   */
+  public async handleInteraction(
+    interaction: MenuInteraction,
+    actionRaw: string
+  ): Promise<ContainerBuilder | null> {
+    const userId = interaction.user.id
+
+    if (!this.canInteract(userId)) {
+      Logger.warn(
+        `User ${userId} attempted to interact with session ${this.sessionId} without permission.`
+      )
+      return null
+    }
+
+    const parsed = this.parseActionId(actionRaw)
+    if (!parsed) {
+      Logger.warn(`Failed to parse action ID: ${actionRaw}`)
+      return null
+    }
+
+    if (parsed.type === "navigation") {
+      switch (parsed.action) {
+        case "tab": {
+          const tab = this.tabNames[parsed.itemIndex ?? -1]
+          return tab ? this.switchTab(userId, tab) : null
+        }
+
+        case "first":
+          return this.firstPage(userId)
+
+        case "previous":
+          return this.previousPage(userId)
+
+        case "next":
+          return this.nextPage(userId)
+
+        case "last":
+          return this.lastPage(userId)
+
+        default:
+          Logger.warn(`Unknown navigation action: ${parsed.action}`)
+          return null
+      }
+    }
+
+    const tab = this.getUserTab(userId)
+    if (
+      this.definition.tabs[tab].type !== "single" &&
+      parsed.itemIndex === undefined
+    ) {
+      Logger.warn(`No item index provided for action: ${parsed.action}`)
+      return null
+    }
+
+    const item = await this.getActionTarget(userId, actionRaw)
+
+    if (!(await this.invokeAction(interaction, parsed.action, item))) {
+      return null
+    }
+
+    // The handler may have mutated session data, so rebuild
+    this.pageCache.clear()
+
+    return this.renderForUser(userId)
+  }
+}
+
+/**
+ * Helper to create a tabs menu definition
+ * Automatically sets type to "tabs"
+ */
+export function tabsMenu<Data extends MenuData>(
+  definition: Omit<TabsMenuDefinition<Data>, "type">
+): TabsMenuDefinition<Data> {
+  return {
+    ...definition,
+    type: "tabs"
+  }
+}
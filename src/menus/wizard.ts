@@ -0,0 +1,383 @@
+import { Logger } from "commandkit"
+import {
+  ActionRowBuilder,
+  type APIComponentInContainer,
+  type ButtonBuilder,
+  ContainerBuilder,
+  LabelBuilder,
+  ModalBuilder,
+  TextDisplayBuilder,
+  TextInputBuilder,
+  TextInputStyle
+} from "discord.js"
+import { MAX_MODAL_FIELDS } from "../constants"
+import { menuManager } from "../manager"
+import { getPluginConfig } from "../plugin"
+import type {
+  MenuData,
+  MenuInteraction,
+  MenuParams,
+  WizardMenuDefinition,
+  WizardStepContext,
+  WizardStepInput
+} from "../types"
+import { transformComponentCustomId } from "../utils"
+import { BaseMenu } from "./base"
+
+export class WizardMenu<Data extends MenuData> extends BaseMenu<Data> {
+  protected override definition: WizardMenuDefinition<Data>
+
+  // Validation messages shown to a user on their next render
+  private stepErrors = new Map<string, string>()
+
+  constructor(
+    definition: WizardMenuDefinition<Data>,
+    sessionId: string,
+    params: MenuParams<Data>,
+    creatorId: string
+  ) {
+    super(definition, sessionId, params, creatorId)
+    this.definition = definition
+
+    if (definition.steps.length === 0) {
+      throw new Error(`Wizard menu "${definition.name}" must define steps`)
+    }
+
+    definition.steps.forEach((step, i) => {
+      const fieldCount = step.input?.fields.length ?? 0
+      if (step.input && (fieldCount === 0 || fieldCount > MAX_MODAL_FIELDS)) {
+        throw new Error(
+          `Wizard menu "${definition.name}" step ${i} input must define between 1 and ${MAX_MODAL_FIELDS} fields`
+        )
+      }
+    })
+  }
+
+  /**
+   * Get the step a user is on
+   */
+  public getUserStep(userId: string): number {
+    const step = this.userSessions.get(userId)?.currentPage ?? 0
+    return Math.min(step, this.definition.steps.length - 1)
+  }
+
+  /**
+   * Move a user to a step and fire the pageChange event if it changed
+   */
+  private async changeUserStep(userId: string, step: number): Promise<void> {
+    const session = this.userSessions.get(userId)
+    if (!session) {
+      return
+    }
+
+    const previousPage = this.getUserStep(userId)
+    session.currentPage = step
+
+    if (previousPage !== step) {
+      await this.emitEvent("pageChange", {
+        ...this.createEventContext(),
+        userId,
+        previousPage,
+        page: step
+      })
+    }
+  }
+
+  private createStepContext(
+    userId: string,
+    step: number
+  ): WizardStepContext<Data> {
+    return {
+      ...this.createSessionContext(),
+      userId,
+      step
+    }
+  }
+
+  /**
+   * Build a user's step
+   * Steps are never cached, they show answers and errors of one user
+   */
+  private async buildStep(userId: string): Promise<ContainerBuilder> {
+    const comps: APIComponentInContainer[] = []
+
+    const title = await this.renderTitle()
+    if (title) {
+      comps.push(...title)
+    }
+
+    const step = this.getUserStep(userId)
+    const stepDefinition = this.definition.steps[step]
+    const body = await stepDefinition.render(
+      this.createStepContext(userId, step)
+    )
+
+    const config = getPluginConfig()
+    const transformedComponents = transformComponentCustomId(
+      this.handleComponentOrFragment(body),
+      config.actionPrefix,
+      this.shortId,
+      new Set(this.actions.keys())
+    ) as APIComponentInContainer[]
+    comps.push(...transformedComponents)
+
+    const error = this.stepErrors.get(userId)
+    if (error) {
+      comps.push(new TextDisplayBuilder().setContent(`⚠️ ${error}`).toJSON())
+    }
+
+    const footer = await this.renderFooter()
+    if (footer) {
+      comps.push(...footer)
+    }
+
+    comps.push(this.renderStepControls(step, this.getUserLocale(userId)))
+
+    const builder = new ContainerBuilder({
+      components: comps
+    })
+
+    if (this.colorResolved) {
+      builder.setAccentColor(this.colorResolved)
+    }
+
+    return builder
+  }
+
+  /**
+   * Render back, input and next (or finish, on the last step) controls
+   */
+  private renderStepControls(
+    step: number,
+    locale?: string
+  ): APIComponentInContainer {
+    const config = this.getNavigationConfig(locale)
+    const { input } = this.definition.steps[step]
+    const isLast = step === this.definition.steps.length - 1
+
+    const buttons: ButtonBuilder[] = [
+      this.buildNavigationButton(config, "previous", step === 0)
+    ]
+
+    if (input) {
+      const inputButton = this.buildNavigationButton(config, "input", false)
+      if (input.buttonLabel) {
+        inputButton.setLabel(input.buttonLabel)
+      }
+      buttons.push(inputButton)
+    }
+
+    buttons.push(
+      this.buildNavigationButton(config, isLast ? "finish" : "next", false)
+    )
+
+    return new ActionRowBuilder()
+      .addComponents(buttons)
+      .toJSON() as APIComponentInContainer
+  }
+
+  private buildInputModal(input: WizardStepInput<Data>): ModalBuilder {
+    const modal = new ModalBuilder()
+      .setCustomId(this.createNavigationActionId("input"))
+      .setTitle(input.modalTitle)
+
+    for (const field of input.fields) {
+      const textInput = new TextInputBuilder()
+        .setCustomId(field.key)
+        .setStyle(
+          field.style === "paragraph"
+            ? TextInputStyle.Paragraph
+            : TextInputStyle.Short
+        )
+        .setRequired(field.required ?? true)
+
+      // Prefill with the previous answer so it can be corrected
+      const answer = this.sessionData[field.key]
+      if (typeof answer === "string" && answer) {
+        textInput.setValue(answer)
+      }
+      if (field.placeholder) {
+        textInput.setPlaceholder(field.placeholder)
+      }
+      if (field.maxLength) {
+        textInput.setMaxLength(field.maxLength)
+      }
+
+      modal.addLabelComponents(
+        new LabelBuilder()
+          .setLabel(field.label)
+          .setTextInputComponent(textInput)
+      )
+    }
+
+    return modal
+  }
+
+  /**
+   * Run a step's validation, keeping its message for the user's next render
+   * Returns whether the user may move past the step
+   */
+  private async validateStep(userId: string, step: number): Promise<boolean> {
+    const { validate } = this.definition.steps[step]
+    const error = validate
+      ? await validate(this.createStepContext(userId, step))
+      : null
+
+    if (error) {
+      this.stepErrors.set(userId, error)
+      return false
+    }
+
+    this.stepErrors.delete(userId)
+    return true
+  }
+
+  /**
+   * Initial render - renders the first step for the creator
+   */
+  public async render(): Promise<ContainerBuilder> {
+    await this.initialize()
+
+    return this.buildStep(this.creatorId)
+  }
+
+  /**
+   * Render for a specific user (uses their step)
+   */
+  public async renderForUser(userId: string): Promise<ContainerBuilder> {
+    return this.buildStep(userId)
+  }
+
+  /**
+   * Validate a user's step and move them to the next one
+   */
+  public async nextStep(userId: string): Promise<ContainerBuilder> {
+    const step = this.getUserStep(userId)
+
+    if (
+      step < this.definition.steps.length - 1 &&
+      (await this.validateStep(userId, step))
+    ) {
+      await this.changeUserStep(userId, step + 1)
+    }
+
+    return this.buildStep(userId)
+  }
+
+  /**
+   * Move a user back a step, answers are kept
+   */
+  public async previousStep(userId: string): Promise<ContainerBuilder> {
+    const step = this.getUserStep(userId)
+
+    this.stepErrors.delete(userId)
+    if (step > 0) {
+      await this.changeUserStep(userId, step - 1)
+    }
+
+    return this.buildStep(userId)
+  }
+
+  /**
+   * Refetch data and update all users
+   */
+  public async refetch(_items?: boolean): Promise<void> {
+    await this.broadcastUpdate()
+  }
+
+  /**
+   * Handle button, select and input modal interactions
+   */
+  public async handleInteraction(
+    interaction: MenuInteraction,
+    actionRaw: string
+  ): Promise<ContainerBuilder | null> {
+    const userId = interaction.user.id
+
+    if (!this.canInteract(userId)) {
+      Logger.warn(
+        `User ${userId} attempted to interact with session ${this.sessionId} without permission.`
+      )
+      return null
+    }
+
+    const parsed = this.parseActionId(actionRaw)
+    if (!parsed) {
+      Logger.warn(`Failed to parse action ID: ${actionRaw}`)
+      return null
+    }
+
+    if (parsed.type === "navigation") {
+      const step = this.getUserStep(userId)
+
+      switch (parsed.action) {
+        case "previous":
+          return this.previousStep(userId)
+
+        case "next":
+          return this.nextStep(userId)
+
+        case "input": {
+          const { input } = this.definition.steps[step]
+          if (!input) {
+            return null
+          }
+
+          // The button opens the modal, submitting it stores the answers
+          if (!interaction.isModalSubmit()) {
+            await interaction.showModal(this.buildInputModal(input))
+            return null
+          }
+
+          const answers: Record<string, string> = {}
+          for (const field of input.fields) {
+            answers[field.key] = interaction.fields.getTextInputValue(field.key)
+          }
+          this.setSessionData({ ...this.sessionData, ...answers })
+          this.stepErrors.delete(userId)
+
+          return this.buildStep(userId)
+        }
+
+        case "finish": {
+          if (step !== this.definition.steps.length - 1) {
+            return null
+          }
+          if (!(await this.validateStep(userId, step))) {
+            return this.buildStep(userId)
+          }
+
+          await this.definition.onComplete(this.createStepContext(userId, step))
+
+          // Ending the session finalizes every message, including this one
+          await interaction.deferUpdate()
+          await menuManager.endSession(this.sessionId)
+          return null
+        }
+
+        default:
+          Logger.warn(`Unknown navigation action: ${parsed.action}`)
+          return null
+      }
+    }
+
+    if (!(await this.invokeAction(interaction, parsed.action))) {
+      return null
+    }
+
+    return this.buildStep(userId)
+  }
+}
+
+/**
+ * Helper to create a wizard menu definition
+ * Automatically sets type to "wizard"
+ */
+export function wizardMenu<Data extends MenuData>(
+  definition: Omit<WizardMenuDefinition<Data>, "type">
+): WizardMenuDefinition<Data> {
+  return {
+    ...definition,
+    type: "wizard"
+  }
+}
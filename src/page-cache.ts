@@ -0,0 +1,182 @@
+import { ContainerBuilder } from "discord.js"
+import { getPluginConfig } from "./plugin"
+import type { PageCacheOptions, PageCacheStats } from "./types"
+
+interface PageCacheEntry {
+  cache: PageCache
+  key: string
+  page: ContainerBuilder | string
+  bytes: number
+}
+
+interface PageCacheCounters {
+  bytes: number
+  hits: number
+  misses: number
+  evictions: number
+}
+
+// Every cached page across sessions, least recently used first
+const cachedPages = new Set<PageCacheEntry>()
+
+const globalCounters: PageCacheCounters = {
+  bytes: 0,
+  hits: 0,
+  misses: 0,
+  evictions: 0
+}
+
+function toStats(size: number, counters: PageCacheCounters): PageCacheStats {
+  const lookups = counters.hits + counters.misses
+  return {
+    size,
+    ...counters,
+    hitRate: lookups > 0 ? counters.hits / lookups : 0
+  }
+}
+
+/**
+ * Get cache stats across every session in this process
+ */
+export function getPageCacheStats(): PageCacheStats {
+  return toStats(cachedPages.size, globalCounters)
+}
+
+/**
+ * Built pages of a session, keyed by its menu
+ * Least recently used pages are evicted past the session's or the global limit
+ */
+export class PageCache {
+  // Options of the menu, merged over the plugin's on use
+  private options: PageCacheOptions
+
+  // Entries of this session, least recently used first
+  private entries = new Map<string, PageCacheEntry>()
+
+  private counters: PageCacheCounters = {
+    bytes: 0,
+    hits: 0,
+    misses: 0,
+    evictions: 0
+  }
+
+  constructor(options: PageCacheOptions = {}) {
+    this.options = options
+  }
+
+  private getOptions(): PageCacheOptions {
+    return { ...getPluginConfig().pageCache, ...this.options }
+  }
+
+  /**
+   * Max pages this session may cache, undefined without a limit
+   */
+  public getCapacity(): number | undefined {
+    const { maxPagesPerSession } = this.getOptions()
+    const maxPages = getPluginConfig().pageCache?.maxPages
+
+    if (maxPagesPerSession === undefined || maxPages === undefined) {
+      return maxPagesPerSession ?? maxPages
+    }
+    return Math.min(maxPagesPerSession, maxPages)
+  }
+
+  /**
+   * Get a cached page, marking it as recently used
+   * Serialized pages are rebuilt, so each hit gets its own builder
+   */
+  public get(key: string): ContainerBuilder | undefined {
+    const entry = this.entries.get(key)
+    if (!entry) {
+      this.counters.misses++
+      globalCounters.misses++
+      return undefined
+    }
+
+    this.counters.hits++
+    globalCounters.hits++
+
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    cachedPages.delete(entry)
+    cachedPages.add(entry)
+
+    return typeof entry.page === "string"
+      ? new ContainerBuilder(JSON.parse(entry.page))
+      : entry.page
+  }
+
+  /**
+   * Cache a page, evicting least recently used pages over the limits
+   */
+  public set(key: string, page: ContainerBuilder): void {
+    this.delete(key)
+
+    // Only serialized pages are measured, measuring builders would serialize them
+    const options = this.getOptions()
+    const json = options.serialize ? JSON.stringify(page.toJSON()) : null
+    const entry: PageCacheEntry = {
+      cache: this,
+      key,
+      page: json ?? page,
+      bytes: json ? Buffer.byteLength(json) : 0
+    }
+
+    this.entries.set(key, entry)
+    cachedPages.add(entry)
+    this.counters.bytes += entry.bytes
+    globalCounters.bytes += entry.bytes
+
+    const { maxPagesPerSession } = options
+    if (maxPagesPerSession !== undefined) {
+      while (this.entries.size > Math.max(0, maxPagesPerSession)) {
+        this.evict(this.entries.values().next().value!)
+      }
+    }
+
+    const maxPages = getPluginConfig().pageCache?.maxPages
+    if (maxPages !== undefined) {
+      while (cachedPages.size > Math.max(0, maxPages)) {
+        this.evict(cachedPages.values().next().value!)
+      }
+    }
+  }
+
+  /**
+   * Remove a cached page
+   */
+  public delete(key: string): void {
+    const entry = this.entries.get(key)
+    if (!entry) {
+      return
+    }
+
+    this.entries.delete(key)
+    cachedPages.delete(entry)
+    this.counters.bytes -= entry.bytes
+    globalCounters.bytes -= entry.bytes
+  }
+
+  /**
+   * Remove every cached page of this session
+   */
+  public clear(): void {
+    for (const key of Array.from(this.entries.keys())) {
+      this.delete(key)
+    }
+  }
+
+  /**
+   * Get cache stats of this session
+   */
+  public getStats(): PageCacheStats {
+    return toStats(this.entries.size, this.counters)
+  }
+
+  // Entries of other sessions are evicted through their own cache
+  private evict(entry: PageCacheEntry): void {
+    entry.cache.delete(entry.key)
+    entry.cache.counters.evictions++
+    globalCounters.evictions++
+  }
+}
@@ -9,11 +9,13 @@ import {
   RuntimePlugin,
   toFileURL
 } from "commandkit"
-import { Events, type Interaction } from "discord.js"
-import { PLUGIN_DEFAULTS } from "./constants"
+import { type ContainerBuilder, Events, type Interaction } from "discord.js"
+import { INTERNAL_ACTION_PREFIX, PLUGIN_DEFAULTS } from "./constants"
+import { getLocalizedConfig } from "./localization"
 import { menuManager } from "./manager"
-import type { MenuPluginOptions } from "./types"
+import type { MenuInteraction, MenuPluginOptions } from "./types"
 import { menuRegistry } from "./registry"
+import { isMenuInteraction, replyEphemeral } from "./utils"
 
 let pluginConfig: MenuPluginOptions = PLUGIN_DEFAULTS
 
@@ -74,26 +76,72 @@ export class MenuPlugin extends RuntimePlugin<MenuPluginOptions> {
 
     // TODO: how to guard this better? another plugin can push args
     const interaction = event.args[0] as Interaction | undefined
-    if (!interaction || !interaction.isMessageComponent()) {
+    if (!interaction || !isMenuInteraction(interaction)) {
       return
     }
 
-    if (!interaction.isButton() && !interaction.isAnySelectMenu()) {
+    const [prefix, shortId, action] = interaction.customId.split(":")
+    if (prefix !== this.options.actionPrefix) {
       return
     }
 
-    const [prefix, sessionKey, action] = interaction.customId.split(":")
-    if (prefix !== this.options.actionPrefix) {
+    // Checked before loading the session, so spam never reaches the store
+    const rateLimitRemaining = menuManager.consumeRateLimit(interaction.user.id)
+    if (rateLimitRemaining > 0) {
+      await replyEphemeral(
+        interaction,
+        getLocalizedConfig(interaction.locale).messages.rateLimited,
+        rateLimitRemaining
+      )
+      event.accept()
       return
     }
 
-    const session = menuManager.getSession(sessionKey)
+    const session = await menuManager.getSessionByShortId(shortId)
     if (!session) {
-      Logger.warn(`Session not found: ${sessionKey}`)
+      Logger.warn(`Session not found: ${shortId}`)
+      await replyEphemeral(
+        interaction,
+        getLocalizedConfig(interaction.locale).messages.sessionExpired
+      )
+      event.accept()
       return
     }
 
-    const menu = await session.handleInteraction(interaction, action)
+    const userId = interaction.user.id
+
+    // Presses of users who may not use the menu do not keep it alive
+    if (session.canInteract(userId)) {
+      menuManager.touchSession(session.getSessionId())
+    }
+
+    session.setUserLocale(userId, interaction.locale)
+    let menu: ContainerBuilder | null
+
+    if (action === `${INTERNAL_ACTION_PREFIX}back`) {
+      menu = await this.switchMenu(interaction, () =>
+        menuManager.closeSubMenu(session, interaction)
+      )
+    } else {
+      menu = await session.dispatchInteraction(interaction, action)
+
+      // Persist page positions and any session data mutated by actions
+      await session.saveSession()
+
+      const subMenu = session.takeSubMenuRequest(userId)
+      if (subMenu) {
+        menu = await this.switchMenu(interaction, () =>
+          menuManager.openSubMenu(session, {
+            menu: subMenu.menu,
+            params: subMenu.params,
+            interaction
+          })
+        )
+      } else if (menu) {
+        menu = await session.withUserControls(menu, userId)
+      }
+    }
+
     if (menu) {
       await interaction.update({
         components: [menu]
@@ -103,6 +151,26 @@ export class MenuPlugin extends RuntimePlugin<MenuPluginOptions> {
     event.accept()
   }
 
+  /**
+   * Open or close a sub-menu, replying instead when it cannot be opened
+   * The menu may be private to another user or over a session limit
+   */
+  private async switchMenu(
+    interaction: MenuInteraction,
+    open: () => Promise<ContainerBuilder | null>
+  ): Promise<ContainerBuilder | null> {
+    try {
+      return await open()
+    } catch (error) {
+      Logger.warn(`User ${interaction.user.id} cannot open menu: ${error}`)
+      await replyEphemeral(
+        interaction,
+        getLocalizedConfig(interaction.locale).messages.menuUnavailable
+      )
+      return null
+    }
+  }
+
   private getPageDirectory(): string {
     return path.join(getCurrentDirectory(), "app", "menus")
   }
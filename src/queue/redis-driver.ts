@@ -0,0 +1,183 @@
+import { Logger } from "commandkit"
+import { Redis, type RedisOptions } from "ioredis"
+import type { QueueDriver } from "../types"
+
+type QueueHandler<T> = (message: T) => Promise<void> | void
+
+export interface RedisQueueDriverOptions {
+  /**
+   * Connection URL, ioredis options, or an existing client
+   * An existing client is duplicated, it is never used or closed directly
+   */
+  connection?: string | RedisOptions | Redis
+
+  /**
+   * Prefix prepended to every topic channel
+   * @default "commandkit:menu:"
+   */
+  channelPrefix?: string
+}
+
+/**
+ * Queue driver backed by Redis pub/sub
+ * Delivers messages to every process subscribed to the same Redis instance
+ *
+ * Messages are serialized as JSON, so function values (for example a function
+ * passed as `updateSessionData`) cannot cross processes and are dropped
+ */
+export class RedisQueueDriver implements QueueDriver {
+  private publisher: Redis
+  private subscriber: Redis
+  private channelPrefix: string
+  private handlers = new Map<string, Set<QueueHandler<any>>>()
+  private closed = false
+
+  constructor(options: RedisQueueDriverOptions = {}) {
+    this.channelPrefix = options.channelPrefix ?? "commandkit:menu:"
+    this.publisher = this.createConnection(options.connection)
+    this.subscriber = this.createConnection(options.connection)
+
+    this.attachConnectionListeners(this.publisher, "publisher")
+    this.attachConnectionListeners(this.subscriber, "subscriber")
+
+    this.subscriber.on("message", (channel: string, payload: string) => {
+      this.handleMessage(channel, payload)
+    })
+  }
+
+  /**
+   * Subscribe to messages on a topic
+   */
+  public subscribe<T>(topic: string, handler: QueueHandler<T>): void {
+    if (this.closed) {
+      throw new Error("Cannot subscribe: Redis queue driver is closed")
+    }
+
+    if (!this.handlers.has(topic)) {
+      this.handlers.set(topic, new Set())
+
+      // Only the first handler for a topic needs a Redis subscription
+      this.subscriber
+        .subscribe(this.getChannel(topic))
+        .catch(err =>
+          Logger.error(`Failed to subscribe to topic ${topic}: ${err}`)
+        )
+    }
+    this.handlers.get(topic)!.add(handler)
+  }
+
+  /**
+   * Publish a message to a topic
+   */
+  public async publish<T>(topic: string, message: T): Promise<void> {
+    if (this.closed) {
+      throw new Error("Cannot publish: Redis queue driver is closed")
+    }
+
+    await this.publisher.publish(
+      this.getChannel(topic),
+      JSON.stringify(message)
+    )
+  }
+
+  /**
+   * Unsubscribe from all topics and close both connections
+   */
+  public async close(): Promise<void> {
+    if (this.closed) {
+      return
+    }
+    this.closed = true
+
+    try {
+      await this.subscriber.unsubscribe()
+    } catch (error) {
+      Logger.warn(`Failed to unsubscribe Redis queue driver: ${error}`)
+    }
+
+    this.handlers.clear()
+
+    await Promise.all([
+      this.quitConnection(this.subscriber),
+      this.quitConnection(this.publisher)
+    ])
+  }
+
+  /**
+   * Dispatch a raw pub/sub payload to the topic's handlers
+   */
+  private async handleMessage(channel: string, payload: string): Promise<void> {
+    if (!channel.startsWith(this.channelPrefix)) {
+      return
+    }
+
+    const topic = channel.slice(this.channelPrefix.length)
+    const handlers = this.handlers.get(topic)
+    if (!handlers) {
+      return
+    }
+
+    let message: unknown
+    try {
+      message = JSON.parse(payload)
+    } catch (error) {
+      Logger.error(`Invalid message payload on topic ${topic}: ${error}`)
+      return
+    }
+
+    await Promise.all(
+      Array.from(handlers).map(handler =>
+        Promise.resolve()
+          .then(() => handler(message))
+          .catch(err =>
+            Logger.error(`Error in handler for topic ${topic}: ${err}`)
+          )
+      )
+    )
+  }
+
+  private getChannel(topic: string): string {
+    return `${this.channelPrefix}${topic}`
+  }
+
+  private createConnection(connection?: string | RedisOptions | Redis): Redis {
+    if (connection instanceof Redis) {
+      return connection.duplicate()
+    }
+
+    // Keep retrying with a capped backoff, ioredis resubscribes on reconnect
+    const defaults: RedisOptions = {
+      autoResubscribe: true,
+      retryStrategy: times => Math.min(times * 200, 5000)
+    }
+
+    if (typeof connection === "string") {
+      return new Redis(connection, defaults)
+    }
+
+    return new Redis({ ...defaults, ...connection })
+  }
+
+  private attachConnectionListeners(client: Redis, role: string): void {
+    client.on("error", error => {
+      Logger.error(`Redis queue ${role} error: ${error}`)
+    })
+
+    client.on("reconnecting", (delay: number) => {
+      Logger.warn(`Redis queue ${role} reconnecting in ${delay}ms`)
+    })
+
+    client.on("ready", () => {
+      Logger.debug(`Redis queue ${role} ready`)
+    })
+  }
+
+  private async quitConnection(client: Redis): Promise<void> {
+    try {
+      await client.quit()
+    } catch {
+      // Connection already gone, make sure no reconnect is scheduled
+      client.disconnect()
+    }
+  }
+}
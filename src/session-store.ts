@@ -0,0 +1,12 @@
+import { MemorySessionStore } from "./store/memory-store"
+import type { SessionStore } from "./types"
+
+let sessionStore: SessionStore = new MemorySessionStore()
+
+export function getSessionStore(): SessionStore {
+  return sessionStore
+}
+
+export function setSessionStore(store: SessionStore): void {
+  sessionStore = store
+}
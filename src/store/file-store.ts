@@ -0,0 +1,187 @@
+import { randomUUID } from "node:crypto"
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  writeFile
+} from "node:fs/promises"
+import path from "node:path"
+import { Logger } from "commandkit"
+import type { SessionStore, StoredSession } from "../types"
+
+export interface FileSessionStoreOptions {
+  /** Directory to write session files to (created if missing) */
+  directory: string
+}
+
+/**
+ * Session store that writes one JSON file per session
+ * Each short ID gets a small file naming its session, so lookups read one file
+ * Params and session data must be JSON serializable
+ */
+export class FileSessionStore implements SessionStore {
+  private directory: string
+  private ready: Promise<void> | null = null
+
+  // Latest write or delete of each session, later ones wait for it
+  private pending = new Map<string, Promise<void>>()
+
+  // Short IDs whose index file this process already wrote
+  private indexedShortIds = new Set<string>()
+
+  constructor(options: FileSessionStoreOptions) {
+    this.directory = options.directory
+  }
+
+  /**
+   * Get a stored session by ID
+   */
+  public async get(sessionId: string): Promise<StoredSession | undefined> {
+    await this.ensureDirectory()
+
+    try {
+      const raw = await readFile(this.getFilePath(sessionId), "utf8")
+      return JSON.parse(raw) as StoredSession
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        Logger.error(`Failed to read session ${sessionId}: ${error}`)
+      }
+      return undefined
+    }
+  }
+
+  /**
+   * Create or replace a stored session
+   */
+  public async set(session: StoredSession): Promise<void> {
+    await this.ensureDirectory()
+
+    const { sessionId, shortId } = session
+    const data = JSON.stringify(session)
+    await this.enqueue(sessionId, async () => {
+      await this.writeAtomic(this.getFilePath(sessionId), data)
+
+      // A short ID never changes, its index file is written once
+      if (shortId && !this.indexedShortIds.has(shortId)) {
+        await this.writeAtomic(this.getShortIdPath(shortId), sessionId)
+        this.indexedShortIds.add(shortId)
+      }
+    })
+  }
+
+  /**
+   * Write to a temp file first so a crash never leaves a partial file
+   */
+  private async writeAtomic(filePath: string, data: string): Promise<void> {
+    const tempPath = `${filePath}.${randomUUID()}.tmp`
+
+    try {
+      await writeFile(tempPath, data, "utf8")
+      await rename(tempPath, filePath)
+    } catch (error) {
+      await rm(tempPath, { force: true })
+      throw error
+    }
+  }
+
+  /**
+   * Delete a stored session
+   */
+  public async delete(sessionId: string): Promise<void> {
+    await this.ensureDirectory()
+    await this.enqueue(sessionId, async () => {
+      const shortId = (await this.get(sessionId))?.shortId
+      await rm(this.getFilePath(sessionId), { force: true })
+
+      if (shortId) {
+        await rm(this.getShortIdPath(shortId), { force: true })
+        this.indexedShortIds.delete(shortId)
+      }
+    })
+  }
+
+  /**
+   * Run a write of a session once its previous writes settle
+   * Saves of one session may overlap, they land in the order they were made
+   */
+  private async enqueue(
+    sessionId: string,
+    write: () => Promise<void>
+  ): Promise<void> {
+    const previous = this.pending.get(sessionId) ?? Promise.resolve()
+    const next = previous.catch(() => {}).then(write)
+    this.pending.set(sessionId, next)
+
+    try {
+      await next
+    } finally {
+      if (this.pending.get(sessionId) === next) {
+        this.pending.delete(sessionId)
+      }
+    }
+  }
+
+  /**
+   * Get all stored session IDs
+   */
+  public async keys(): Promise<string[]> {
+    await this.ensureDirectory()
+
+    const files = await readdir(this.directory)
+    return files
+      .filter(f => f.endsWith(".json"))
+      .map(f => decodeURIComponent(f.slice(0, -".json".length)))
+  }
+
+  /**
+   * Get the IDs of every stored session a user is viewing
+   * Reads every session file, prefer a store with an index for many sessions
+   */
+  public async getUserSessionIds(userId: string): Promise<string[]> {
+    const sessionIds: string[] = []
+
+    for (const sessionId of await this.keys()) {
+      const session = await this.get(sessionId)
+      if (session?.userSessions.some(u => u.userId === userId)) {
+        sessionIds.push(sessionId)
+      }
+    }
+
+    return sessionIds
+  }
+
+  /**
+   * Get the ID of the stored session with a short ID
+   */
+  public async getSessionIdByShortId(
+    shortId: string
+  ): Promise<string | undefined> {
+    await this.ensureDirectory()
+
+    try {
+      return await readFile(this.getShortIdPath(shortId), "utf8")
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        Logger.error(`Failed to read short ID ${shortId}: ${error}`)
+      }
+      return undefined
+    }
+  }
+
+  private getFilePath(sessionId: string): string {
+    return path.join(this.directory, `${encodeURIComponent(sessionId)}.json`)
+  }
+
+  private getShortIdPath(shortId: string): string {
+    return path.join(this.directory, `${encodeURIComponent(shortId)}.short`)
+  }
+
+  private ensureDirectory(): Promise<void> {
+    if (!this.ready) {
+      this.ready = mkdir(this.directory, { recursive: true }).then(() => {})
+    }
+    return this.ready
+  }
+}
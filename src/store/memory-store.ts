@@ -0,0 +1,68 @@
+import type { SessionStore, StoredSession } from "../types"
+
+/**
+ * Session store that keeps snapshots in process memory
+ * Sessions do not survive a restart, use a persistent store for that
+ */
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, StoredSession>()
+
+  /**
+   * Get a stored session by ID
+   */
+  public async get(sessionId: string): Promise<StoredSession | undefined> {
+    return this.sessions.get(sessionId)
+  }
+
+  /**
+   * Create or replace a stored session
+   */
+  public async set(session: StoredSession): Promise<void> {
+    this.sessions.set(session.sessionId, session)
+  }
+
+  /**
+   * Delete a stored session
+   */
+  public async delete(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId)
+  }
+
+  /**
+   * Get all stored session IDs
+   */
+  public async keys(): Promise<string[]> {
+    return Array.from(this.sessions.keys())
+  }
+
+  /**
+   * Get the IDs of every stored session a user is viewing
+   */
+  public async getUserSessionIds(userId: string): Promise<string[]> {
+    return Array.from(this.sessions.values())
+      .filter(session => session.userSessions.some(u => u.userId === userId))
+      .map(session => session.sessionId)
+  }
+
+  /**
+   * Get the ID of the stored session with a short ID
+   */
+  public async getSessionIdByShortId(
+    shortId: string
+  ): Promise<string | undefined> {
+    for (const session of this.sessions.values()) {
+      if (session.shortId === shortId) {
+        return session.sessionId
+      }
+    }
+
+    return undefined
+  }
+
+  /**
+   * Clear all stored sessions
+   */
+  public async close(): Promise<void> {
+    this.sessions.clear()
+  }
+}
@@ -0,0 +1,226 @@
+import { Logger } from "commandkit"
+import { Redis, type RedisOptions } from "ioredis"
+import type { SessionStore, StoredSession } from "../types"
+
+export interface RedisSessionStoreOptions {
+  /**
+   * Connection URL, ioredis options, or an existing client
+   * An existing client is duplicated, it is never used or closed directly
+   */
+  connection?: string | RedisOptions | Redis
+
+  /**
+   * Prefix prepended to every key written by the store
+   * @default "commandkit:menu:"
+   */
+  keyPrefix?: string
+}
+
+/**
+ * Session store backed by Redis
+ * Each session is stored under its context key and expires with its TTL,
+ * a set per user indexes the sessions they are viewing and a key per short ID
+ * points to its session
+ */
+export class RedisSessionStore implements SessionStore {
+  private client: Redis
+  private keyPrefix: string
+
+  constructor(options: RedisSessionStoreOptions = {}) {
+    this.keyPrefix = options.keyPrefix ?? "commandkit:menu:"
+    this.client = this.createConnection(options.connection)
+
+    this.client.on("error", error => {
+      Logger.error(`Redis session store error: ${error}`)
+    })
+  }
+
+  /**
+   * Get a stored session by ID
+   */
+  public async get(sessionId: string): Promise<StoredSession | undefined> {
+    const raw = await this.client.get(this.getSessionKey(sessionId))
+    if (!raw) {
+      return undefined
+    }
+
+    try {
+      return JSON.parse(raw) as StoredSession
+    } catch (error) {
+      Logger.error(`Invalid stored session ${sessionId}: ${error}`)
+      return undefined
+    }
+  }
+
+  /**
+   * Create or replace a stored session
+   * The Redis key expires when the session's TTL runs out
+   */
+  public async set(session: StoredSession): Promise<void> {
+    const { sessionId } = session
+    const sessionKey = this.getSessionKey(sessionId)
+
+    const ttlRemaining =
+      session.expiresAt !== undefined ? session.expiresAt - Date.now() : null
+    if (ttlRemaining !== null && ttlRemaining <= 0) {
+      await this.delete(sessionId)
+      return
+    }
+
+    // Users who left the session must be dropped from their index
+    const previous = await this.get(sessionId)
+    const userIds = new Set(session.userSessions.map(u => u.userId))
+    const removedUserIds = (previous?.userSessions ?? [])
+      .map(u => u.userId)
+      .filter(userId => !userIds.has(userId))
+
+    const multi = this.client.multi()
+
+    if (ttlRemaining !== null) {
+      multi.set(sessionKey, JSON.stringify(session), "PX", ttlRemaining)
+    } else {
+      multi.set(sessionKey, JSON.stringify(session))
+    }
+
+    if (session.shortId) {
+      const shortIdKey = this.getShortIdKey(session.shortId)
+      if (ttlRemaining !== null) {
+        multi.set(shortIdKey, sessionId, "PX", ttlRemaining)
+      } else {
+        multi.set(shortIdKey, sessionId)
+      }
+    }
+
+    for (const userId of userIds) {
+      multi.sadd(this.getUserIndexKey(userId), sessionId)
+    }
+    for (const userId of removedUserIds) {
+      multi.srem(this.getUserIndexKey(userId), sessionId)
+    }
+
+    await multi.exec()
+  }
+
+  /**
+   * Delete a stored session, its user index entries and short ID
+   */
+  public async delete(sessionId: string): Promise<void> {
+    const previous = await this.get(sessionId)
+    const multi = this.client.multi().del(this.getSessionKey(sessionId))
+
+    if (previous?.shortId) {
+      multi.del(this.getShortIdKey(previous.shortId))
+    }
+
+    for (const userSession of previous?.userSessions ?? []) {
+      multi.srem(this.getUserIndexKey(userSession.userId), sessionId)
+    }
+
+    await multi.exec()
+  }
+
+  /**
+   * Get all stored session IDs
+   */
+  public async keys(): Promise<string[]> {
+    const sessionPrefix = this.getSessionKey("")
+    const sessionIds: string[] = []
+
+    let cursor = "0"
+    do {
+      const [nextCursor, keys] = await this.client.scan(
+        cursor,
+        "MATCH",
+        `${sessionPrefix}*`,
+        "COUNT",
+        100
+      )
+      cursor = nextCursor
+
+      for (const key of keys) {
+        sessionIds.push(key.slice(sessionPrefix.length))
+      }
+    } while (cursor !== "0")
+
+    return sessionIds
+  }
+
+  /**
+   * Get the IDs of every stored session a user is viewing
+   * Index entries for sessions that expired are pruned
+   */
+  public async getUserSessionIds(userId: string): Promise<string[]> {
+    const indexKey = this.getUserIndexKey(userId)
+    const sessionIds = await this.client.smembers(indexKey)
+    if (sessionIds.length === 0) {
+      return []
+    }
+
+    const pipeline = this.client.pipeline()
+    for (const sessionId of sessionIds) {
+      pipeline.exists(this.getSessionKey(sessionId))
+    }
+    const results = (await pipeline.exec()) ?? []
+
+    const active: string[] = []
+    const expired: string[] = []
+    sessionIds.forEach((sessionId, i) => {
+      const [error, exists] = results[i] ?? []
+      if (!error && exists === 1) {
+        active.push(sessionId)
+      } else if (!error) {
+        expired.push(sessionId)
+      }
+    })
+
+    if (expired.length > 0) {
+      await this.client.srem(indexKey, ...expired)
+    }
+
+    return active
+  }
+
+  /**
+   * Get the ID of the stored session with a short ID
+   */
+  public async getSessionIdByShortId(
+    shortId: string
+  ): Promise<string | undefined> {
+    return (await this.client.get(this.getShortIdKey(shortId))) ?? undefined
+  }
+
+  /**
+   * Close the Redis connection
+   */
+  public async close(): Promise<void> {
+    try {
+      await this.client.quit()
+    } catch {
+      this.client.disconnect()
+    }
+  }
+
+  private getSessionKey(sessionId: string): string {
+    return `${this.keyPrefix}session:${sessionId}`
+  }
+
+  private getUserIndexKey(userId: string): string {
+    return `${this.keyPrefix}user:${userId}`
+  }
+
+  private getShortIdKey(shortId: string): string {
+    return `${this.keyPrefix}short:${shortId}`
+  }
+
+  private createConnection(connection?: string | RedisOptions | Redis): Redis {
+    if (connection instanceof Redis) {
+      return connection.duplicate()
+    }
+
+    if (typeof connection === "string") {
+      return new Redis(connection)
+    }
+
+    return new Redis({ ...connection })
+  }
+}
@@ -1,5 +1,23 @@
-import type { Awaitable, MessageComponentInteraction } from "discord.js"
+import type {
+  AnySelectMenuInteraction,
+  Awaitable,
+  ButtonInteraction,
+  GuildMember,
+  MessageComponentInteraction,
+  ModalMessageModalSubmitInteraction,
+  PermissionResolvable
+} from "discord.js"
 import type { MenuData, MenuItem, MenuParams, MenuSession } from "./menu"
+import type { SessionContext } from "./session"
+
+/**
+ * Interactions routed to a menu session
+ * Modal submits are only routed when the modal was opened from a menu message
+ */
+export type MenuInteraction =
+  | ButtonInteraction
+  | AnySelectMenuInteraction
+  | ModalMessageModalSubmitInteraction
 
 /**
  * Context passed to action handlers
@@ -17,11 +35,26 @@ export interface ActionContext<Data extends MenuData> {
   /** Item at the selected index (for item-level actions) */
   item?: MenuItem<Data>
 
+  /** Items the user selected (for bulk actions) */
+  items?: MenuItem<Data>[]
+
   /** Session ID */
   sessionId: string
 
   /** User who triggered the action */
   userId: string
+
+  /**
+   * Keep the session alive: restarts its idle timeout and, when `ms` is
+   * given, pushes its TTL back by `ms`
+   */
+  extendSession: (ms?: number) => Promise<void>
+
+  /**
+   * Show another registered menu in this message once the handler returns,
+   * with a back button returning the user to where they were
+   */
+  openMenu: (menu: string, params: any) => void
 }
 
 /**
@@ -31,10 +64,85 @@ export type ActionHandler<Data extends MenuData> = (
   ctx: ActionContext<Data>
 ) => Awaitable<void>
 
+/**
+ * Prompt shown before an action runs
+ */
+export interface ActionConfirmation {
+  /** Message asking the user to confirm */
+  message: string
+
+  /** Label of the confirm button, defaults to the confirm config */
+  confirmLabel?: string
+
+  /** Label of the cancel button, defaults to the cancel config */
+  cancelLabel?: string
+}
+
+/**
+ * Context passed to an action guard's check
+ */
+export interface ActionGuardContext<Data extends MenuData>
+  extends SessionContext<Data> {
+  /** User the action is checked for */
+  userId: string
+
+  /** Guild member of the user, null outside of guilds */
+  member: GuildMember | null
+
+  /** The press being checked, unset when checking while rendering */
+  interaction?: MessageComponentInteraction
+
+  /** Item the action runs against, unset when checking while rendering */
+  item?: MenuItem<Data>
+}
+
+/**
+ * Who may use an action, every given condition must pass
+ */
+export interface ActionGuard<Data extends MenuData> {
+  /** Permissions the user needs in the menu's channel (guilds only) */
+  permissions?: PermissionResolvable
+
+  /** Role IDs, the user needs at least one of them (guilds only) */
+  roles?: string[]
+
+  /** Custom check, return false to deny the user */
+  check?: (ctx: ActionGuardContext<Data>) => Awaitable<boolean>
+
+  /**
+   * How the action's components render for users who are denied
+   * Section accessories can only be disabled
+   * @default "disable"
+   */
+  display?: "hide" | "disable"
+
+  /** Ephemeral reply to a denied press, defaults to the plugin's message */
+  deniedMessage?: string
+}
+
+/**
+ * Action handler with options
+ */
+export interface ActionDefinition<Data extends MenuData> {
+  handler: ActionHandler<Data>
+
+  /**
+   * Ask the user to confirm before the handler runs
+   * The prompt is dropped when the user does anything else
+   */
+  confirm?: ActionConfirmation
+
+  /** Restrict who may use the action */
+  guard?: ActionGuard<Data>
+
+  /** Milliseconds a user must wait before running the action again */
+  cooldown?: number
+}
+
 /**
  * Record of action handlers
  */
 export type ActionHandlers<Data extends MenuData> = Record<
   string,
-  ActionHandler<Data>
+  ActionHandler<Data> | ActionDefinition<Data>
 >
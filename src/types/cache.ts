@@ -0,0 +1,41 @@
+/**
+ * How a menu caches its built pages
+ */
+export interface PageCacheOptions {
+  /** Max pages cached per session, least recently used are evicted (default: no limit) */
+  maxPagesPerSession?: number
+
+  /**
+   * Cache pages as serialized JSON instead of builders (default: false)
+   * Keeps less in memory, but every cache hit rebuilds the page's builder
+   */
+  serialize?: boolean
+}
+
+/**
+ * How every session caches its built pages
+ */
+export interface GlobalPageCacheOptions extends PageCacheOptions {
+  /** Max pages cached across every session, least recently used are evicted (default: no limit) */
+  maxPages?: number
+}
+
+export interface PageCacheStats {
+  /** Pages cached */
+  size: number
+
+  /** Size of the serialized pages in bytes, pages cached as builders are not measured */
+  bytes: number
+
+  /** Lookups that found a cached page */
+  hits: number
+
+  /** Lookups that had to build the page */
+  misses: number
+
+  /** Hits over lookups, 0 before any lookup */
+  hitRate: number
+
+  /** Pages evicted to stay within the limits */
+  evictions: number
+}
@@ -0,0 +1,103 @@
+import type { MenuData, MenuItem } from "./menu"
+import type { SessionContext, UserSession } from "./session"
+
+/**
+ * Base payload for every menu lifecycle event
+ */
+export interface MenuEvent<Data extends MenuData = any>
+  extends SessionContext<Data> {
+  /** Name of the registered menu definition */
+  menuName: string
+}
+
+/**
+ * Why a user stopped viewing a session
+ * - 'removed': removed through removeUserSession
+ * - 'messageDeleted': their message no longer exists
+ * - 'tokenExpired': their ephemeral message can no longer be edited
+ * - 'subMenu': they opened a sub-menu, or went back from one
+ */
+export type UserLeaveReason =
+  | "removed"
+  | "messageDeleted"
+  | "tokenExpired"
+  | "subMenu"
+
+/**
+ * Why a session expired
+ * - 'ttl': its absolute time-to-live ran out
+ * - 'idle': nobody interacted with it for the idle timeout
+ */
+export type SessionExpireReason = "ttl" | "idle"
+
+export interface MenuSessionExpireEvent<Data extends MenuData = any>
+  extends MenuEvent<Data> {
+  reason: SessionExpireReason
+}
+
+export interface MenuUserJoinEvent<Data extends MenuData = any>
+  extends MenuEvent<Data> {
+  userId: string
+  userSession: UserSession
+}
+
+export interface MenuUserLeaveEvent<Data extends MenuData = any>
+  extends MenuEvent<Data> {
+  userId: string
+  reason: UserLeaveReason
+}
+
+export interface MenuPageChangeEvent<Data extends MenuData = any>
+  extends MenuEvent<Data> {
+  userId: string
+  previousPage: number
+  page: number
+}
+
+export interface MenuActionEvent<Data extends MenuData = any>
+  extends MenuEvent<Data> {
+  userId: string
+  action: string
+
+  /** Item the action ran against (for item-level actions) */
+  item?: MenuItem<Data>
+
+  /** Items the action ran against (for bulk actions) */
+  items?: MenuItem<Data>[]
+}
+
+export interface MenuMessageDeleteEvent<Data extends MenuData = any>
+  extends MenuEvent<Data> {
+  userId: string
+  messageId: string
+  channelId: string
+}
+
+/**
+ * Map of event names to their payloads
+ */
+export interface MenuEvents<Data extends MenuData = any> {
+  /** A user started viewing the session, including the creator */
+  userJoin: MenuUserJoinEvent<Data>
+
+  /** A user stopped viewing the session */
+  userLeave: MenuUserLeaveEvent<Data>
+
+  /** A user navigated to another page (pagination menus only) */
+  pageChange: MenuPageChangeEvent<Data>
+
+  /** A user-defined action ran */
+  action: MenuActionEvent<Data>
+
+  /** The session's TTL or idle timeout ran out, fired before the session ends */
+  sessionExpire: MenuSessionExpireEvent<Data>
+
+  /** A user's menu message was deleted */
+  messageDelete: MenuMessageDeleteEvent<Data>
+}
+
+export type MenuEventName = keyof MenuEvents
+
+export type MenuEventListener<K extends MenuEventName> = (
+  event: MenuEvents[K]
+) => Promise<void> | void
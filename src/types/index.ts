@@ -1,7 +1,10 @@
 export * from "./action"
+export * from "./cache"
+export * from "./events"
 export * from "./menu"
 export * from "./plugin"
 export * from "./queue"
 export * from "./session"
+export * from "./store"
 export * from "./utils"
 export * from "./registry"
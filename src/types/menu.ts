@@ -4,7 +4,18 @@ import type {
   ContainerComponentBuilder
 } from "discord.js"
 import type { ActionHandlers } from "./action"
+import type { PageCacheOptions } from "./cache"
+import type {
+  MenuActionEvent,
+  MenuMessageDeleteEvent,
+  MenuPageChangeEvent,
+  MenuSessionExpireEvent,
+  MenuUserJoinEvent,
+  MenuUserLeaveEvent
+} from "./events"
+import type { PageNavigation } from "./plugin"
 import type { SessionContext, SessionOptions } from "./session"
+import type { PartialDeep } from "./utils"
 
 /**
  * Base interface for menu data types
@@ -42,7 +53,7 @@ export type ContainerComponentOrFragment =
  */
 export interface BaseMenuDefinition<Data extends MenuData> {
   /** Type of menu that this is */
-  type: "single" | "pagination"
+  type: "single" | "pagination" | "cursor" | "tabs" | "wizard"
 
   /** Unique name for this menu type */
   name: string
@@ -53,6 +64,9 @@ export interface BaseMenuDefinition<Data extends MenuData> {
   /** Session behavior options */
   sessionOptions?: SessionOptions
 
+  /** How sessions cache built pages, over the plugin's options */
+  pageCache?: PageCacheOptions
+
   /** Create a unique key to store the session */
   createKey: (params: MenuParams<Data>) => Awaitable<string>
 
@@ -62,6 +76,24 @@ export interface BaseMenuDefinition<Data extends MenuData> {
   /** Cleanup when session ends */
   onSessionEnd?: (ctx: SessionContext<Data>) => Promise<void>
 
+  /** Called when a user starts viewing the session, including the creator */
+  onUserJoin?: (event: MenuUserJoinEvent<Data>) => Awaitable<void>
+
+  /** Called when a user stops viewing the session */
+  onUserLeave?: (event: MenuUserLeaveEvent<Data>) => Awaitable<void>
+
+  /** Called when a user navigates to another page, or wizard step */
+  onPageChange?: (event: MenuPageChangeEvent<Data>) => Awaitable<void>
+
+  /** Called after a user-defined action runs */
+  onAction?: (event: MenuActionEvent<Data>) => Awaitable<void>
+
+  /** Called when the session's TTL or idle timeout runs out, before it ends */
+  onSessionExpire?: (event: MenuSessionExpireEvent<Data>) => Awaitable<void>
+
+  /** Called when a user's menu message was deleted */
+  onMessageDelete?: (event: MenuMessageDeleteEvent<Data>) => Awaitable<void>
+
   /** Render the menu title */
   renderTitle?: (
     ctx: SessionContext<Data>
@@ -72,6 +104,14 @@ export interface BaseMenuDefinition<Data extends MenuData> {
     ctx: SessionContext<Data>
   ) => Awaitable<ContainerComponentOrFragment>
 
+  /**
+   * Render the final state shown when the session ends
+   * Used with `sessionOptions.updateOnEnd`, combined per `endRenderMode`
+   */
+  renderEnd?: (
+    ctx: SessionContext<Data>
+  ) => Awaitable<ContainerComponentOrFragment>
+
   /**
    * Define custom actions for this menu
    * Action names should be simple strings (e.g., 'delete', 'favorite', 'edit')
@@ -97,6 +137,127 @@ export interface SinglePageMenuDefinition<Data extends MenuData>
   ) => Awaitable<ContainerComponentOrFragment>
 }
 
+/**
+ * Page requested from a paginated menu's fetchPage
+ */
+export interface FetchPageOptions {
+  /** Zero-based page number */
+  page: number
+
+  /** Number of items per page */
+  perPage: number
+}
+
+/**
+ * A single page of items and the size of the whole dataset
+ */
+export interface FetchPageResult<Data extends MenuData> {
+  /** Items on the requested page */
+  items: MenuItem<Data>[]
+
+  /** Total number of items across all pages */
+  total: number
+}
+
+/**
+ * Search options for a paginated menu
+ * Either matches or fetch is required, fetchPage menus need fetch
+ */
+export interface PaginationSearchOptions<Data extends MenuData> {
+  /** Check if an item matches a query, filters the fetched items in memory */
+  matches?: (item: MenuItem<Data>, query: string) => boolean
+
+  /**
+   * Fetch the items matching a query, for searching on the data source
+   * Takes precedence over matches
+   */
+  fetch?: (
+    params: MenuParams<Data>,
+    query: string
+  ) => Awaitable<MenuItem<Data>[]>
+}
+
+/**
+ * Selection options for a paginated menu
+ */
+export interface PaginationSelectionOptions<Data extends MenuData> {
+  /**
+   * Actions run against every selected item, passed as `ctx.items`
+   * Render their buttons in the title or footer using the action name
+   */
+  bulkActions: ActionHandlers<Data>
+
+  /**
+   * Clear the user's selection once a bulk action ran
+   * @default true
+   */
+  clearAfterAction?: boolean
+}
+
+/**
+ * Page controls a paginated menu can render
+ * - 'indicator': a disabled "Page X / Y" button
+ * - 'goto': a select menu of nearby pages, on a row of its own
+ */
+export type PaginationControl =
+  | "first"
+  | "previous"
+  | "indicator"
+  | "next"
+  | "last"
+  | "goto"
+
+/**
+ * Navigation of a single paginated menu
+ */
+export interface PaginationNavigationOptions {
+  /**
+   * Preset page controls, ignored when controls is set
+   * - 'full': first, previous, next, last and the goto select
+   * - 'compact': previous and next only
+   * @default 'full'
+   */
+  layout?: "full" | "compact"
+
+  /** Page controls to render, buttons in order on one row */
+  controls?: PaginationControl[]
+
+  /**
+   * How the goto control jumps to a page
+   * - 'window': a select of the pages around the current one
+   * - 'modal': a button opening a modal to type a page number
+   * - 'ranges': a select of page ranges, then a select of the range's pages
+   * @default 'window'
+   */
+  jump?: "window" | "modal" | "ranges"
+
+  /** Navigation options merged over the plugin's, for this menu only */
+  options?: PartialDeep<PageNavigation>
+}
+
+/**
+ * What a paginated menu's custom navigation renders for
+ */
+export interface PaginationNavigationState {
+  /** Zero-based page the user is on */
+  page: number
+
+  /** Pages in the user's view */
+  pageCount: number
+
+  /** Items in the user's view */
+  itemCount: number
+
+  /** Items the user selected */
+  selectedCount: number
+
+  /** The user's search query */
+  query?: string
+
+  /** Name of the user's sort */
+  sort?: string
+}
+
 /**
  * Definition for a paginated menu
  */
@@ -109,12 +270,141 @@ export interface PaginationMenuDefinition<Data extends MenuData>
   perPage: number
 
   /**
-   * Whether to preload all pages on first render
+   * Whether to preload all pages on first render (ignored with fetchPage)
+   * Only as many pages as the page cache can hold are preloaded
    * @default false (lazy load)
    */
   preloadAll?: boolean
 
-  /** Fetch all items for pagination */
+  /** Fetch all items for pagination (required unless fetchPage is set) */
+  fetch?: (params: MenuParams<Data>) => Awaitable<MenuItem<Data>[]>
+
+  /**
+   * Fetch a single page of items on demand, for datasets too large to hold
+   * in memory. Takes precedence over fetch
+   */
+  fetchPage?: (
+    params: MenuParams<Data>,
+    options: FetchPageOptions
+  ) => Awaitable<FetchPageResult<Data>>
+
+  /**
+   * Let users filter items through a search modal
+   * Each user's search gives them their own filtered pages
+   */
+  search?: PaginationSearchOptions<Data>
+
+  /**
+   * Named sort orders users can pick from, e.g. { newest, alphabetical }
+   * Each user keeps their own sort, items are in fetch order until one is
+   * picked. Requires fetch, at most 25 sorts
+   */
+  sorts?: Record<string, (a: MenuItem<Data>, b: MenuItem<Data>) => number>
+
+  /**
+   * Let users select items across pages and run bulk actions on them
+   * Selections are cleared when a user changes their sort or search
+   */
+  selection?: PaginationSelectionOptions<Data>
+
+  /** Per-menu page controls and navigation options */
+  navigation?: PaginationNavigationOptions
+
+  /**
+   * Render the navigation in place of the built-in controls
+   * Components whose custom ID is a navigation action (e.g. "next", "search")
+   * trigger it, unless the menu registered an action of that name
+   * A "goto" select takes zero-based page numbers as values
+   */
+  renderNavigation?: (
+    ctx: SessionContext<Data>,
+    state: PaginationNavigationState
+  ) => Awaitable<ContainerComponentOrFragment>
+
+  /** Render a single item */
+  renderItem: (
+    item: MenuItem<Data>,
+    index: number,
+    pageIndex: number,
+    ctx: SessionContext<Data>
+  ) => Awaitable<ContainerComponentOrFragment>
+}
+
+/**
+ * A page of items fetched from a cursor
+ */
+export interface CursorPageResult<Data extends MenuData> {
+  /** Items on the page */
+  items: MenuItem<Data>[]
+
+  /** Cursor of the following page, null or omitted on the last page */
+  nextCursor?: string | null
+
+  /** Cursor of the preceding page, null or omitted on the first page */
+  previousCursor?: string | null
+}
+
+/**
+ * Definition for a menu paginated by cursors instead of page offsets
+ * For sources that only expose before/after cursors, so there is no page
+ * count and no jumping to the last or an arbitrary page
+ */
+export interface CursorPaginationMenuDefinition<Data extends MenuData>
+  extends BaseMenuDefinition<Data> {
+  /** Type of page */
+  type: "cursor"
+
+  /** Fetch the page at a cursor, null for the first page */
+  fetchCursor: (
+    params: MenuParams<Data>,
+    cursor: string | null
+  ) => Awaitable<CursorPageResult<Data>>
+
+  /** Render a single item */
+  renderItem: (
+    item: MenuItem<Data>,
+    index: number,
+    ctx: SessionContext<Data>
+  ) => Awaitable<ContainerComponentOrFragment>
+}
+
+/**
+ * Options shared by every tab of a tabbed menu
+ */
+interface BaseMenuTab {
+  /** Label of the tab's button */
+  label?: string
+
+  /** Emoji of the tab's button */
+  emoji?: string
+}
+
+/**
+ * Tab rendering a single body
+ */
+export interface SingleMenuTab<Data extends MenuData> extends BaseMenuTab {
+  type: "single"
+
+  /** Fetch the tab's item, when the tab is first opened */
+  fetch: (params: MenuParams<Data>) => Awaitable<MenuItem<Data>>
+
+  /** Render the tab's body */
+  renderBody: (
+    item: MenuItem<Data>,
+    ctx: SessionContext<Data>
+  ) => Awaitable<ContainerComponentOrFragment>
+}
+
+/**
+ * Tab rendering a paginated list
+ */
+export interface PaginationMenuTab<Data extends MenuData> extends BaseMenuTab {
+  type: "pagination"
+
+  /** Number of items to display per page */
+  perPage: number
+
+  /** Fetch the tab's items, when the tab is first opened */
   fetch: (params: MenuParams<Data>) => Awaitable<MenuItem<Data>[]>
 
   /** Render a single item */
@@ -126,9 +416,130 @@ export interface PaginationMenuDefinition<Data extends MenuData>
   ) => Awaitable<ContainerComponentOrFragment>
 }
 
+export type MenuTab<Data extends MenuData> =
+  | SingleMenuTab<Data>
+  | PaginationMenuTab<Data>
+
+/**
+ * Definition for a menu split into tabs
+ * Tabs render as buttons above the content, in the order they are defined
+ */
+export interface TabsMenuDefinition<Data extends MenuData>
+  extends BaseMenuDefinition<Data> {
+  /** Type of page */
+  type: "tabs"
+
+  /** Tabs by name, at most 25 */
+  tabs: Record<string, MenuTab<Data>>
+
+  /**
+   * Tab users start on
+   * @default the first tab
+   */
+  defaultTab?: string
+}
+
+/**
+ * Context passed to a wizard step, for the user going through it
+ */
+export interface WizardStepContext<Data extends MenuData>
+  extends SessionContext<Data> {
+  /** User going through the wizard */
+  userId: string
+
+  /** Zero-based index of the step */
+  step: number
+}
+
+/**
+ * A text input of a wizard step's modal
+ */
+export interface WizardInputField<Data extends MenuData> {
+  /** Session data key the answer is stored under */
+  key: keyof MenuSession<Data> & string
+
+  /** Label of the input */
+  label: string
+
+  /** Placeholder of the input */
+  placeholder?: string
+
+  /**
+   * Input style
+   * @default "short"
+   */
+  style?: "short" | "paragraph"
+
+  /**
+   * Whether an answer is required to submit the modal
+   * @default true
+   */
+  required?: boolean
+
+  /** Maximum length of the answer */
+  maxLength?: number
+}
+
+/**
+ * Modal collecting answers for a wizard step
+ */
+export interface WizardStepInput<Data extends MenuData> {
+  /** Title of the modal */
+  modalTitle: string
+
+  /** Label of the button opening the modal, defaults to the input config */
+  buttonLabel?: string
+
+  /** Inputs of the modal, at most 5 */
+  fields: WizardInputField<Data>[]
+}
+
+/**
+ * A single step of a wizard
+ */
+export interface WizardStep<Data extends MenuData> {
+  /** Render the step's body */
+  render: (
+    ctx: WizardStepContext<Data>
+  ) => Awaitable<ContainerComponentOrFragment>
+
+  /** Collect answers through a modal, stored in the session data */
+  input?: WizardStepInput<Data>
+
+  /**
+   * Check the step before the user moves past it
+   * Return a message to show and keep the user on the step
+   */
+  validate?: (
+    ctx: WizardStepContext<Data>
+  ) => Awaitable<string | null | undefined>
+}
+
+/**
+ * Definition for a menu walking users through ordered steps
+ * Answers live in the session data, so wizards suit the private mode
+ */
+export interface WizardMenuDefinition<Data extends MenuData>
+  extends BaseMenuDefinition<Data> {
+  /** Type of page */
+  type: "wizard"
+
+  /** Steps in the order they are completed */
+  steps: WizardStep<Data>[]
+
+  /**
+   * Called once the last step is finished and validated, the session ends
+   * right after. Use `sessionOptions.updateOnEnd` to show a final state
+   */
+  onComplete: (ctx: WizardStepContext<Data>) => Awaitable<void>
+}
+
 /**
  * Union of all menu definition types
  */
 export type MenuDefinition<Data extends MenuData> =
   | SinglePageMenuDefinition<Data>
   | PaginationMenuDefinition<Data>
+  | CursorPaginationMenuDefinition<Data>
+  | TabsMenuDefinition<Data>
+  | WizardMenuDefinition<Data>
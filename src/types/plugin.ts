@@ -1,4 +1,6 @@
 import type { ButtonStyle } from "discord.js"
+import type { GlobalPageCacheOptions } from "./cache"
+import type { SessionLimits } from "./session"
 import type { PartialDeep } from "./utils"
 
 export type ButtonWithCustomId =
@@ -18,19 +20,141 @@ export interface PageNavigationSelectOptions {
   optionLabel: string
 }
 
+export interface PageNavigationTabOptions {
+  style: ButtonWithCustomId
+
+  /** Style of the tab being viewed */
+  activeStyle: ButtonWithCustomId
+}
+
+export interface PageNavigationSortOptions {
+  placeholder: string
+
+  /** Label of each sort option, replaces %sort% with the sort's name */
+  optionLabel: string
+}
+
+export interface PageNavigationModalOptions
+  extends PageNavigationButtonOptions {
+  /** Title of the modal the button opens */
+  modalTitle: string
+
+  /** Label of the modal's input */
+  inputLabel: string
+
+  /** Placeholder of the modal's input */
+  inputPlaceholder?: string
+}
+
+export type PageNavigationSearchOptions = PageNavigationModalOptions
+
 export interface PageNavigation {
   first: PageNavigationButtonOptions
   previous: PageNavigationButtonOptions
   next: PageNavigationButtonOptions
   last: PageNavigationButtonOptions
+  /** Label replaces %page% and %pageMax% with the page and page count */
+  indicator: PageNavigationButtonOptions
   goto: PageNavigationSelectOptions
+  /** Input placeholder replaces %pageMax% with the page count */
+  jump: PageNavigationModalOptions
+  /** Replaces %start% and %end% with the first and last page of a range */
+  gotoRange: PageNavigationSelectOptions
+  search: PageNavigationSearchOptions
+  clearSearch: PageNavigationButtonOptions
+  sort: PageNavigationSortOptions
+  selectItem: PageNavigationButtonOptions
+  deselectItem: PageNavigationButtonOptions
+  selectAll: PageNavigationButtonOptions
+  clearSelection: PageNavigationButtonOptions
+  /** Label replaces %count% with the number of selected items */
+  selectionCount: PageNavigationButtonOptions
+  tab: PageNavigationTabOptions
+  back: PageNavigationButtonOptions
+  input: PageNavigationButtonOptions
+  finish: PageNavigationButtonOptions
+  confirm: PageNavigationButtonOptions
+  cancel: PageNavigationButtonOptions
 }
 
 export type PageNavigationType = keyof PageNavigation
 
+export interface MenuMessages {
+  /** Ephemeral reply to a press of an action the user may not use */
+  actionDenied: string
+
+  /** Ephemeral reply to a press during a cooldown, replaces %seconds% */
+  cooldown: string
+
+  /** Ephemeral reply to a rate limited user, replaces %seconds% */
+  rateLimited: string
+
+  /** Ephemeral reply when a sub-menu or its parent cannot be opened */
+  menuUnavailable: string
+
+  /** Ephemeral reply to a press on a menu whose session has ended */
+  sessionExpired: string
+
+  /** Ephemeral reply when what a confirmation was asked for changed since */
+  confirmationStale: string
+}
+
+/**
+ * Interactions a user may make across every menu within a window
+ */
+export interface InteractionRateLimit {
+  /** Max interactions per window */
+  interactions: number
+
+  /** Window length in milliseconds */
+  window: number
+}
+
+/**
+ * Navigation labels and messages of a locale, merged over the defaults
+ */
+export type MenuLocaleCatalog = PartialDeep<{
+  navigation: PageNavigation
+  messages: MenuMessages
+}>
+
+/**
+ * Translate a navigation label or message for a locale
+ * Keys are paths into the options, e.g. "navigation.goto.placeholder"
+ * Return undefined to keep the catalog's text
+ */
+export type MenuTranslator = (
+  key: string,
+  locale: string,
+  text: string
+) => string | undefined
+
 export interface MenuPluginOptions {
   actionPrefix: string
   navigation: PageNavigation
+  messages: MenuMessages
+
+  /**
+   * Catalogs by Discord locale, e.g. "fr" or "pt-BR" (default: none)
+   * A locale without a catalog uses one of the same language, if any
+   * Merged over the built-in catalog of the locale
+   */
+  locales: Record<string, MenuLocaleCatalog>
+
+  /** Whether to use the built-in catalogs of de, fr, es-ES and pt-BR (default: true) */
+  builtInLocales: boolean
+
+  /** Translate texts after catalogs are applied (default: none) */
+  translate?: MenuTranslator
+
+  /** Session limits applied across every menu (default: no limits) */
+  sessionLimits?: SessionLimits
+
+  /** Interaction rate limit per user across every menu (default: no limit) */
+  rateLimit?: InteractionRateLimit
+
+  /** How sessions cache built pages, menus may override (default: no limits) */
+  pageCache?: GlobalPageCacheOptions
 }
 
 /** What callers can pass: everything optional, deep */
@@ -25,13 +25,60 @@ export interface UserSession {
   /** Current page number for this user (pagination menus only) */
   currentPage: number
 
+  /** Tab this user is viewing (tabs menus only) */
+  activeTab?: string
+
+  /** Page this user is on in each paginated tab (tabs menus only) */
+  tabPages?: Record<string, number>
+
+  /**
+   * Cursors of the pages this user moved through, the last one is the
+   * current page (cursor menus only)
+   */
+  cursorStack?: Array<string | null>
+
+  /** Query filtering this user's items (pagination menus with search only) */
+  searchQuery?: string
+
+  /** Name of the sort order this user chose (pagination menus only) */
+  sort?: string
+
+  /**
+   * Indexes of the items this user selected in their current view
+   * (pagination menus with selection only)
+   */
+  selectedIndexes?: number[]
+
+  /** Menus this user opened sub-menus from, the last one is the parent */
+  menuStack?: MenuStackEntry[]
+
   /** Whether this user's message is ephemeral */
   ephemeral: boolean
 
+  /** Discord locale of the user's last interaction, localizes navigation */
+  locale?: string
+
   /** Timestamp when the session was created */
   createdAt: number
 }
 
+/**
+ * A menu a user left for a sub-menu, restored by the back button
+ */
+export interface MenuStackEntry {
+  /** Name of the parent menu */
+  menuName: string
+
+  /** Parent session ID */
+  sessionId: string
+
+  /** Parameters of the parent, to recreate it if its session ended */
+  params: any
+
+  /** The user's state in the parent, to restore their exact position */
+  userSession: UserSession
+}
+
 /**
  * Session context passed to menu lifecycle hooks
  */
@@ -59,12 +106,67 @@ export interface SessionOptions {
   /** Time-to-live in milliseconds before session auto-destroys (default: no TTL) */
   ttl?: number
 
+  /**
+   * Milliseconds without interaction before session auto-destroys (default: none)
+   * Restarts whenever a user interacts with or joins the session
+   */
+  idleTimeout?: number
+
+  /**
+   * Milliseconds a user must wait between presses in the session (default: none)
+   * Modal submits complete a press and are not limited
+   */
+  cooldown?: number
+
   /** Delete the message when session ends (default: false) */
   deleteOnEnd?: boolean
 
-  /** Update the message with final state when session ends (default: false) */
+  /**
+   * Update the message with final state when session ends (default: false)
+   * Interactive components are always disabled in the final state
+   */
   updateOnEnd?: boolean
 
-  /** How to merge final render with existing content (default: 'replace') */
+  /**
+   * How to combine the definition's renderEnd with the user's last page
+   * - 'replace': show only the renderEnd content
+   * - 'merge': keep the last page without its action rows, add renderEnd below
+   * - 'append': keep the last page as is, add renderEnd below
+   * Without renderEnd, the last page is shown with its components disabled
+   * @default 'replace'
+   */
   endRenderMode?: "replace" | "merge" | "append"
+
+  /** Concurrent session limits for this menu (default: no limits) */
+  limits?: SessionLimits
+}
+
+/**
+ * Which sessions a limit counts
+ * - 'user': sessions created by the same user
+ * - 'guild': sessions created in the same guild
+ * - 'total': every session
+ */
+export type SessionLimitScope = "user" | "guild" | "total"
+
+/**
+ * Concurrent session limits, counted over sessions loaded in this process
+ */
+export interface SessionLimits {
+  /** Max sessions a single user can have created */
+  perUser?: number
+
+  /** Max sessions created within a single guild */
+  perGuild?: number
+
+  /** Max sessions overall */
+  total?: number
+
+  /**
+   * What to do when creating a session would exceed a limit
+   * - 'reject': throw a SessionLimitError
+   * - 'endOldest': end the oldest sessions counted by the limit
+   * @default 'reject'
+   */
+  policy?: "reject" | "endOldest"
 }
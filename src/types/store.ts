@@ -0,0 +1,77 @@
+import type { UserSession } from "./session"
+
+/**
+ * Serializable snapshot of a menu session
+ * Everything needed to rebuild a menu from its registered definition
+ */
+export interface StoredSession {
+  /** Name of the registered menu definition */
+  menuName: string
+
+  /** Session ID (the key returned by the definition's createKey) */
+  sessionId: string
+
+  /**
+   * Short ID used in custom IDs in place of the session ID
+   * Missing for sessions stored before short IDs, which use their session ID
+   */
+  shortId?: string
+
+  /** Parameters the session was created with */
+  params: any
+
+  /** Session data at the time of the snapshot */
+  sessionData: any
+
+  /** User who created the session */
+  creatorId: string
+
+  /** Guild the session was created in, null outside of guilds */
+  guildId?: string | null
+
+  /** Every user viewing the session */
+  userSessions: UserSession[]
+
+  /** Timestamp when the session was created */
+  createdAt: number
+
+  /** Timestamp when the session's TTL runs out (default: no TTL) */
+  expiresAt?: number
+}
+
+export interface SessionStore {
+  /**
+   * Get a stored session by ID
+   */
+  get(sessionId: string): Promise<StoredSession | undefined>
+
+  /**
+   * Create or replace a stored session
+   */
+  set(session: StoredSession): Promise<void>
+
+  /**
+   * Delete a stored session
+   */
+  delete(sessionId: string): Promise<void>
+
+  /**
+   * Get all stored session IDs
+   */
+  keys(): Promise<string[]>
+
+  /**
+   * Get the IDs of every stored session a user is viewing
+   */
+  getUserSessionIds(userId: string): Promise<string[]>
+
+  /**
+   * Get the ID of the stored session with a short ID
+   */
+  getSessionIdByShortId(shortId: string): Promise<string | undefined>
+
+  /**
+   * Close the store and clean up resources
+   */
+  close?(): Promise<void>
+}
@@ -1,6 +1,10 @@
 /**
- * Make all properties of T optional recursively
+ * Make all properties of T optional recursively, functions are kept as is
  */
 export type PartialDeep<T> = {
-  [K in keyof T]?: T[K] extends object ? PartialDeep<T[K]> : T[K]
+  [K in keyof T]?: T[K] extends (...args: any[]) => any
+    ? T[K]
+    : T[K] extends object
+      ? PartialDeep<T[K]>
+      : T[K]
 }
@@ -1,3 +1,89 @@
+import { Logger } from "commandkit"
+import {
+  ComponentType,
+  type Interaction,
+  type MessageComponentInteraction,
+  MessageFlags
+} from "discord.js"
+import {
+  INTERACTIVE_COMPONENT_TYPES,
+  INTERNAL_ACTION_PREFIX,
+  NAVIGATION_ACTIONS
+} from "./constants"
+import type { MenuInteraction } from "./types"
+
+/**
+ * Check if an interaction is one that menus handle
+ */
+export function isMenuInteraction(
+  interaction: Interaction
+): interaction is MenuInteraction {
+  if (interaction.isModalSubmit()) {
+    return interaction.isFromMessage()
+  }
+
+  return interaction.isButton() || interaction.isAnySelectMenu()
+}
+
+/**
+ * Acknowledge an interaction with an ephemeral message
+ * Replaces %seconds% with the given wait, rounded up
+ */
+export async function replyEphemeral(
+  interaction: MenuInteraction | MessageComponentInteraction,
+  content: string,
+  waitMs?: number
+): Promise<void> {
+  if (waitMs !== undefined) {
+    content = content.replace("%seconds%", `${Math.ceil(waitMs / 1000)}`)
+  }
+
+  try {
+    await interaction.reply({ content, flags: MessageFlags.Ephemeral })
+  } catch (error) {
+    Logger.error(`Failed to reply to ${interaction.user.id}: ${error}`)
+  }
+}
+
+/**
+ * Mark custom IDs naming a built-in navigation action as navigation
+ * Run before transformComponentCustomId, which then keeps the marker
+ */
+export function markNavigationCustomIds(
+  component: any,
+  userActionNames: Set<string>
+): any {
+  if (!component || typeof component !== "object") {
+    return component
+  }
+
+  if (Array.isArray(component)) {
+    return component.map(c => markNavigationCustomIds(c, userActionNames))
+  }
+
+  const marked: any = { ...component }
+
+  // An action the menu registered keeps its name
+  if (
+    NAVIGATION_ACTIONS.has(marked.custom_id) &&
+    !userActionNames.has(marked.custom_id)
+  ) {
+    marked.custom_id = `${INTERNAL_ACTION_PREFIX}${marked.custom_id}`
+  }
+
+  for (const key in marked) {
+    if (
+      // biome-ignore lint/suspicious/noPrototypeBuiltins: check own keys
+      Object.prototype.hasOwnProperty.call(marked, key) &&
+      typeof marked[key] === "object"
+    ) {
+      marked[key] = markNavigationCustomIds(marked[key], userActionNames)
+    }
+  }
+
+  return marked
+}
+
 /**
  * Transform a single component's custom_id to include action prefix and session info
  * Automatically appends item index if it's an item action
@@ -62,3 +148,125 @@ export function transformComponentCustomId(
 
   return transformed
 }
+
+/**
+ * Hide or disable the interactive components a user may not use
+ * Returns null when the component itself is hidden. Action rows left empty
+ * are hidden, section accessories are disabled since sections need one
+ */
+export function restrictComponents(
+  component: any,
+  restriction: (customId: string) => "hide" | "disable" | null
+): any {
+  if (!component || typeof component !== "object") {
+    return component
+  }
+
+  if (Array.isArray(component)) {
+    return component
+      .map(c => restrictComponents(c, restriction))
+      .filter(c => c !== null)
+  }
+
+  const restricted: any = { ...component }
+
+  if (
+    INTERACTIVE_COMPONENT_TYPES.has(restricted.type) &&
+    typeof restricted.custom_id === "string"
+  ) {
+    switch (restriction(restricted.custom_id)) {
+      case "hide":
+        return null
+
+      case "disable":
+        restricted.disabled = true
+        break
+    }
+  }
+
+  for (const key in restricted) {
+    if (
+      // biome-ignore lint/suspicious/noPrototypeBuiltins: check own keys
+      Object.prototype.hasOwnProperty.call(restricted, key) &&
+      typeof restricted[key] === "object"
+    ) {
+      const child = restrictComponents(restricted[key], restriction)
+      restricted[key] =
+        child === null && key === "accessory"
+          ? { ...restricted[key], disabled: true }
+          : child
+    }
+  }
+
+  if (
+    restricted.type === ComponentType.ActionRow &&
+    restricted.components?.length === 0
+  ) {
+    return null
+  }
+
+  return restricted
+}
+
+/**
+ * Collect every custom ID in a component tree
+ */
+export function collectCustomIds(component: any): string[] {
+  if (!component || typeof component !== "object") {
+    return []
+  }
+
+  if (Array.isArray(component)) {
+    return component.flatMap(c => collectCustomIds(c))
+  }
+
+  const customIds: string[] =
+    typeof component.custom_id === "string" ? [component.custom_id] : []
+
+  for (const key in component) {
+    if (
+      // biome-ignore lint/suspicious/noPrototypeBuiltins: check own keys
+      Object.prototype.hasOwnProperty.call(component, key) &&
+      typeof component[key] === "object"
+    ) {
+      customIds.push(...collectCustomIds(component[key]))
+    }
+  }
+
+  return customIds
+}
+
+/**
+ * Disable every button and select menu in a component tree
+ * Link and premium buttons carry no custom_id and stay usable
+ */
+export function disableInteractiveComponents(component: any): any {
+  if (!component || typeof component !== "object") {
+    return component
+  }
+
+  if (Array.isArray(component)) {
+    return component.map(c => disableInteractiveComponents(c))
+  }
+
+  const disabled: any = { ...component }
+
+  if (
+    INTERACTIVE_COMPONENT_TYPES.has(disabled.type) &&
+    typeof disabled.custom_id === "string"
+  ) {
+    disabled.disabled = true
+  }
+
+  for (const key in disabled) {
+    if (
+      // biome-ignore lint/suspicious/noPrototypeBuiltins: check own keys
+      Object.prototype.hasOwnProperty.call(disabled, key) &&
+      typeof disabled[key] === "object"
+    ) {
+      disabled[key] = disableInteractiveComponents(disabled[key])
+    }
+  }
+
+  return disabled
+}